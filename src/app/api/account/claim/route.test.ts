@@ -0,0 +1,95 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { OWNER_COOKIE, SESSION_COOKIE } from "@/lib/accounts";
+import { defaultTemplateId } from "@/lib/templates";
+
+const resume = `# Alex Morgan
+
+alex.morgan@example.com
+
+## Experience
+
+### Senior Software Engineer, Northwind Labs (2021 - Present)
+- Led the rewrite of the billing platform
+
+## Skills
+
+TypeScript, React, Node.js
+`;
+
+const IP = "203.0.113.7"; // Shared by both browsers, as behind NAT
+
+const generate = async (): Promise<{ id: string; ownerCookie: string }> => {
+  const { POST } = await import("@/app/api/generate/route");
+  const form = new FormData();
+  form.append("file", new File([resume], "resume.md", { type: "text/markdown" }));
+  form.append("template", defaultTemplateId);
+  form.append("mode", "fast");
+  const response = await POST(new NextRequest("http://localhost/api/generate", { method: "POST", body: form, ip: IP }));
+  return { id: (await response.json()).id, ownerCookie: `${OWNER_COOKIE}=${response.cookies.get(OWNER_COOKIE)?.value}` };
+};
+
+const signIn = async (email: string) => {
+  const { createMagicLinkToken, redeemMagicLinkToken } = await import("@/lib/accounts/accounts");
+  const session = await redeemMagicLinkToken(await createMagicLinkToken(email));
+  return `${SESSION_COOKIE}=${session?.sessionToken}`;
+};
+
+const claim = async (cookie: string) => {
+  const { POST } = await import("./route");
+  return POST(new NextRequest("http://localhost/api/account/claim", { method: "POST", ip: IP, headers: { cookie } }));
+};
+
+const remove = async (id: string, cookie: string) => {
+  const { DELETE } = await import("@/app/api/portfolios/[id]/route");
+  return DELETE(new NextRequest(`http://localhost/api/portfolios/${id}`, { method: "DELETE", ip: IP, headers: { cookie } }), { params: { id } });
+};
+
+describe("POST /api/account/claim", () => {
+  const previousCwd = process.cwd();
+  let workDir: string;
+
+  beforeAll(async () => {
+    process.env.AI_PROVIDER = "mock";
+    process.env.NEXT_PUBLIC_STORAGE_PROVIDER = "local";
+    process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER = "disabled";
+    process.env.KV_PROVIDER = "memory";
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "folioflexxing-"));
+    process.chdir(workDir);
+  });
+
+  afterAll(async () => {
+    process.chdir(previousCwd);
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it("only claims the portfolios created with the caller's owner cookie", async () => {
+    const mine = await generate();
+    const theirs = await generate();
+    const session = await signIn("alex@mail.test");
+
+    const response = await claim(`${session}; ${mine.ownerCookie}`);
+    expect(await response.json()).toEqual({ claimed: 1 });
+
+    expect((await remove(theirs.id, session)).status).toBe(404);
+    expect((await remove(mine.id, mine.ownerCookie)).status).toBe(404);
+    expect((await remove(mine.id, session)).status).toBe(200);
+    expect((await remove(theirs.id, theirs.ownerCookie)).status).toBe(200);
+  });
+
+  it("claims nothing for a browser without portfolios", async () => {
+    await generate();
+    const session = await signIn("sam@mail.test");
+
+    expect(await (await claim(session)).json()).toEqual({ claimed: 0 });
+  });
+
+  it("requires a signed-in user", async () => {
+    const { ownerCookie } = await generate();
+
+    expect((await claim(ownerCookie)).status).toBe(401);
+  });
+});
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { claimPortfolios, getRequestOwner } from "@/lib/accounts";
+import { getHistory, moveHistory } from "@/lib/history";
+
+/**
+ * Attaches the portfolios this browser created before signing in to the
+ * signed-in account. Only portfolios whose owner record matches the
+ * request's owner cookie change hands, along with their history entries.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const owner = await getRequestOwner(req);
+    if (!owner.user) {
+      return NextResponse.json({ error: "Please sign in first." }, { status: 401 });
+    }
+
+    const history = await getHistory(owner.anonymousKey);
+    const claimed = await claimPortfolios(history.map((record) => record.id), owner);
+    await moveHistory(owner.anonymousKey, owner.key, claimed);
+
+    return NextResponse.json({ claimed: claimed.length });
+  } catch (error: any) {
+    console.error("Error claiming history:", error);
+    return NextResponse.json({ error: error.message || "Failed to claim portfolios" }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, clearSessionCookie, deleteSession } from "@/lib/accounts";
+
+export async function POST(req: NextRequest) {
+  try {
+    const sessionToken = req.cookies.get(SESSION_COOKIE)?.value;
+    if (sessionToken) {
+      await deleteSession(sessionToken);
+    }
+
+    const res = NextResponse.json({ signedOut: true });
+    clearSessionCookie(res);
+    return res;
+  } catch (error: any) {
+    console.error("Error signing out:", error);
+    return NextResponse.json({ error: error.message || "Failed to sign out" }, { status: 500 });
+  }
+}
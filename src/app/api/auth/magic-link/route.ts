@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { appBaseUrl, createMagicLinkToken, isValidEmail, normalizeEmail, sendMail } from "@/lib/accounts";
+import { signInRatelimit } from "@/lib/rate-limit";
+
+const MAGIC_LINK_MINUTES = 15;
+
+// Emails a single-use sign-in link; the account is created on first sign-in
+export async function POST(req: NextRequest) {
+  try {
+    const { success: rateLimitSuccess } = await signInRatelimit.limit(req.ip ?? "127.0.0.1");
+    if (!rateLimitSuccess) {
+      return NextResponse.json({ error: "Too many requests. Please try again later." }, { status: 429 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const email = normalizeEmail(typeof body.email === "string" ? body.email : "");
+    if (!isValidEmail(email)) {
+      return NextResponse.json({ error: "Please enter a valid email address." }, { status: 400 });
+    }
+
+    const token = await createMagicLinkToken(email);
+    const link = new URL("/api/auth/verify", appBaseUrl(req));
+    link.searchParams.set("token", token);
+
+    await sendMail({
+      to: email,
+      subject: "Sign in to FolioFlexxing",
+      text: [
+        "Use this link to sign in to FolioFlexxing:",
+        "",
+        link.toString(),
+        "",
+        `The link works once and expires in ${MAGIC_LINK_MINUTES} minutes. If you did not ask for it, you can ignore this email.`,
+      ].join("\n"),
+    });
+
+    return NextResponse.json({ sent: true });
+  } catch (error: any) {
+    console.error("Error sending sign-in link:", error);
+    return NextResponse.json({ error: "Failed to send the sign-in link." }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestOwner } from "@/lib/accounts";
+import { getHistory } from "@/lib/history";
+
+// The signed-in user, and how many portfolios this browser created before signing in can still be claimed
+export async function GET(req: NextRequest) {
+  try {
+    const { user, anonymousKey } = await getRequestOwner(req);
+    if (!user) {
+      return NextResponse.json({ user: null, claimable: 0 });
+    }
+
+    const claimable = (await getHistory(anonymousKey)).length;
+    return NextResponse.json({ user: { id: user.id, email: user.email }, claimable });
+  } catch (error: any) {
+    console.error("Error fetching session:", error);
+    return NextResponse.json({ error: error.message || "Failed to fetch session" }, { status: 500 });
+  }
+}
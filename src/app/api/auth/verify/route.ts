@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { appBaseUrl, redeemMagicLinkToken, setSessionCookie } from "@/lib/accounts";
+
+// Target of the emailed link: starts a session and returns to the app at the address the link was sent from
+export async function GET(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get("token");
+  const redirectTo = new URL("/", appBaseUrl(req));
+
+  try {
+    const session = token ? await redeemMagicLinkToken(token) : null;
+    if (!session) {
+      redirectTo.searchParams.set("signIn", "expired");
+      return NextResponse.redirect(redirectTo);
+    }
+
+    const res = NextResponse.redirect(redirectTo);
+    setSessionCookie(res, session.sessionToken);
+    return res;
+  } catch (error: any) {
+    console.error("Error verifying sign-in link:", error);
+    redirectTo.searchParams.set("signIn", "failed");
+    return NextResponse.redirect(redirectTo);
+  }
+}
@@ -0,0 +1,133 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { OWNER_COOKIE } from "@/lib/accounts";
+import { defaultTemplateId } from "@/lib/templates";
+
+const resume = `# Alex Morgan
+
+alex.morgan@example.com
+
+## Experience
+
+### Senior Software Engineer, Northwind Labs (2021 - Present)
+- Led the rewrite of the billing platform, cutting invoice errors by 40%
+- Mentored four engineers and introduced weekly design reviews
+
+## Education
+
+B.Sc. Computer Science, State University (2013 - 2017)
+
+## Skills
+
+TypeScript, React, Node.js, PostgreSQL, AWS
+`;
+
+const generateRequest = (headers: Record<string, string> = {}) => {
+  const form = new FormData();
+  form.append("file", new File([resume], "resume.md", { type: "text/markdown" }));
+  form.append("template", defaultTemplateId);
+  return new NextRequest("http://localhost/api/generate", { method: "POST", body: form, headers });
+};
+
+// Runs the whole route offline: mock AI, local storage in a temporary directory, in-memory key-value store, no captcha
+describe("POST /api/generate", () => {
+  const previousCwd = process.cwd();
+  let workDir: string;
+
+  beforeAll(async () => {
+    process.env.AI_PROVIDER = "mock";
+    process.env.NEXT_PUBLIC_STORAGE_PROVIDER = "local";
+    process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER = "disabled";
+    process.env.KV_PROVIDER = "memory";
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "folioflexxing-"));
+    process.chdir(workDir);
+  });
+
+  afterAll(async () => {
+    process.chdir(previousCwd);
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it("generates, stores and records a portfolio", async () => {
+    const { POST } = await import("./route");
+    const response = await POST(generateRequest());
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.renderer).toBe("ai");
+    expect(body.url).toMatch(new RegExp(`^/portfolios/.*${body.id}/index\\.html$`));
+
+    const portfolioDir = path.join(workDir, "public", path.dirname(body.url));
+    const html = await fs.readFile(path.join(portfolioDir, "index.html"), "utf-8");
+    expect(html).toContain("Alex Morgan");
+    expect(html).toContain('http-equiv="Content-Security-Policy"');
+
+    const metadata = JSON.parse(await fs.readFile(path.join(portfolioDir, "metadata.json"), "utf-8"));
+    expect(metadata.template).toBe(defaultTemplateId);
+    const current = metadata.versions.find((version: { version: number }) => version.version === metadata.currentVersion);
+    expect(current.quality.passed).toBe(true);
+
+    const ownerToken = response.cookies.get(OWNER_COOKIE)?.value;
+    expect(ownerToken).toBeTruthy();
+    const { getHistory } = await import("@/lib/history");
+    const { anonymousOwnerKey, getPortfolioOwner } = await import("@/lib/accounts");
+    expect((await getHistory(anonymousOwnerKey(ownerToken!))).map((record) => record.id)).toContain(body.id);
+    expect(await getPortfolioOwner(body.id)).toBe(anonymousOwnerKey(ownerToken!));
+  });
+
+  it("streams stage progress as server-sent events", async () => {
+    const { POST } = await import("./route");
+    const response = await POST(generateRequest({ accept: "text/event-stream" }));
+    const events = (await response.text()).split("\n\n").filter(Boolean);
+
+    expect(response.headers.get("content-type")).toContain("text/event-stream");
+    expect(events.some((event) => event.includes('"stage":"structured"'))).toBe(true);
+    expect(events[events.length - 1]).toMatch(/^event: done\n/);
+  });
+
+  it("rejects unknown templates", async () => {
+    const { POST } = await import("./route");
+    const form = new FormData();
+    form.append("file", new File([resume], "resume.md", { type: "text/markdown" }));
+    form.append("template", "no-such-template");
+    const response = await POST(new NextRequest("http://localhost/api/generate", { method: "POST", body: form }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it("keeps the slug of a stored portfolio and frees it when generation fails", async () => {
+    const { POST } = await import("./route");
+    const { isSlugAvailable, resolveSlug } = await import("@/lib/slugs");
+    const request = (file: File, slug: string) => {
+      const form = new FormData();
+      form.append("file", file);
+      form.append("template", defaultTemplateId);
+      form.append("mode", "fast");
+      form.append("slug", slug);
+      // Its own IP, so the other tests' requests do not count towards its rate limit
+      return new NextRequest("http://localhost/api/generate", { method: "POST", body: form, ip: "198.51.100.20" });
+    };
+
+    const stored = await (await POST(request(new File([resume], "resume.md", { type: "text/markdown" }), "alex-morgan"))).json();
+    expect(await resolveSlug("alex-morgan")).toBe(stored.id);
+
+    const failed = await POST(request(new File(["%%"], "resume.xyz"), "alex-morgan-cv"));
+    expect(failed.status).toBe(400);
+    expect(await isSlugAvailable("alex-morgan-cv")).toBe(true);
+  });
+
+  it("refuses replay-only prompt versions", async () => {
+    const { POST } = await import("./route");
+    const form = new FormData();
+    form.append("file", new File([resume], "resume.md", { type: "text/markdown" }));
+    form.append("template", defaultTemplateId);
+    form.append("promptVersion", "v1");
+    const response = await POST(new NextRequest("http://localhost/api/generate", { method: "POST", body: form }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Unsupported prompt version: v1");
+  });
+});
@@ -1,14 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { Redis } from "@upstash/redis";
-
-const redis = Redis.fromEnv();
+import { getRequestOwner } from "@/lib/accounts";
+import { getHistory } from "@/lib/history";
 
 export async function GET(req: NextRequest) {
   try {
-    const identifier = req.ip ?? "127.0.0.1";
-    const historyKey = `portfolio:history:${identifier}`;
-    
-    const history = await redis.get<any[]>(historyKey) || [];
+    const { key: identifier } = await getRequestOwner(req);
+    const history = await getHistory(identifier);
     
     return NextResponse.json({ history });
   } catch (error: any) {
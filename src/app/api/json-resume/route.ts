@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fromJsonResume, isJsonResume } from "@/lib/resume";
+
+// Converts a JSON Resume document into the structured data used by the generator
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (!isJsonResume(body)) {
+      return NextResponse.json({ error: "The body must be a JSON Resume document with a \"basics\" section." }, { status: 400 });
+    }
+
+    const { data, errors } = fromJsonResume(body);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "The JSON Resume is incomplete.", details: errors }, { status: 400 });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error: any) {
+    console.error("Error importing JSON Resume:", error);
+    return NextResponse.json({ error: error.message || "Failed to import JSON Resume" }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestOwner } from "@/lib/accounts";
+import { StorageFactory } from "@/lib/storage";
+import { toJsonResume } from "@/lib/resume";
+import { readOwnedPortfolioMetadata, readPortfolioResume, toErrorPayload } from "@/lib/pipeline";
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// Exports the current version's structured data as a downloadable JSON Resume
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const storageProvider = StorageFactory.getDefaultProvider();
+    await readOwnedPortfolioMetadata(storageProvider, params.id, await getRequestOwner(req));
+
+    const data = await readPortfolioResume(storageProvider, params.id);
+    return new NextResponse(JSON.stringify(toJsonResume(data), null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="resume.json"',
+      },
+    });
+  } catch (error: any) {
+    const { status, body } = toErrorPayload(error, `/api/portfolios/${params.id}/json-resume`);
+    return NextResponse.json(body, { status });
+  }
+}
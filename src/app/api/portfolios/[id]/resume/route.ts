@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestOwner } from "@/lib/accounts";
+import { AIProviderFactory } from "@/lib/ai";
+import { StorageFactory } from "@/lib/storage";
+import { updateHistoryRecord } from "@/lib/history";
+import { recordUsage } from "@/lib/usage";
+import { generationRatelimit } from "@/lib/rate-limit";
+import { validateResumeData } from "@/lib/resume";
+import { defaultPromptVersion, isActivePromptVersion } from "@/lib/prompts";
+import { isGenerationMode, readOwnedPortfolioMetadata, readPortfolioResume, regeneratePortfolio, toErrorPayload } from "@/lib/pipeline";
+
+interface RouteParams {
+  params: { id: string };
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const storageProvider = StorageFactory.getDefaultProvider();
+    await readOwnedPortfolioMetadata(storageProvider, params.id, await getRequestOwner(req));
+
+    const data = await readPortfolioResume(storageProvider, params.id);
+    return NextResponse.json({ data });
+  } catch (error: any) {
+    const { status, body } = toErrorPayload(error, `/api/portfolios/${params.id}/resume`);
+    return NextResponse.json(body, { status });
+  }
+}
+
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    const owner = await getRequestOwner(req);
+    const storageProvider = StorageFactory.getDefaultProvider();
+    const metadata = await readOwnedPortfolioMetadata(storageProvider, params.id, owner);
+
+    const { success: rateLimitSuccess } = await generationRatelimit.limit(owner.ip);
+    if (!rateLimitSuccess) {
+      return NextResponse.json({ error: "Too many requests. Please try again later." }, { status: 429 });
+    }
+
+    const body = await req.json();
+    const { data: resumeData, errors } = validateResumeData(body.data);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "The resume data is invalid.", details: errors }, { status: 400 });
+    }
+    const mode = body.mode ?? "ai";
+    if (typeof mode !== "string" || !isGenerationMode(mode)) {
+      return NextResponse.json({ error: `Unknown generation mode: ${mode}` }, { status: 400 });
+    }
+    const promptVersion = body.promptVersion ?? defaultPromptVersion;
+    if (!isActivePromptVersion(promptVersion)) {
+      return NextResponse.json({ error: `Unsupported prompt version: ${promptVersion}` }, { status: 400 });
+    }
+
+    const aiProviders = AIProviderFactory.getStageProviders();
+
+    const result = await regeneratePortfolio({ metadata, resumeData, mode, promptVersion }, { aiProviders, storageProvider });
+    await updateHistoryRecord(owner.key, params.id, {
+      url: result.url,
+      updatedAt: result.metadata.updatedAt,
+      metadataUrl: result.files.metadataUrl,
+      resumeUrl: result.files.resumeUrl,
+    });
+    if (result.usage) {
+      await recordUsage(result.metadata.template, result.usage);
+    }
+
+    return NextResponse.json({ id: result.id, url: result.url, renderer: result.renderer, data: resumeData });
+  } catch (error: any) {
+    const { status, body } = toErrorPayload(error, `/api/portfolios/${params.id}/resume`);
+    return NextResponse.json(body, { status });
+  }
+}
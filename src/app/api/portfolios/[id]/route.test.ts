@@ -0,0 +1,100 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { OWNER_COOKIE } from "@/lib/accounts";
+import { defaultTemplateId } from "@/lib/templates";
+
+const resume = `# Alex Morgan
+
+alex.morgan@example.com
+
+## Experience
+
+### Senior Software Engineer, Northwind Labs (2021 - Present)
+- Led the rewrite of the billing platform
+
+## Skills
+
+TypeScript, React, Node.js
+`;
+
+const IP = "203.0.113.7"; // Everyone shares it, as behind NAT
+
+// Returns the portfolio id and the owner cookie the response set
+const generate = async (): Promise<{ id: string; cookie: string }> => {
+  const { POST } = await import("@/app/api/generate/route");
+  const form = new FormData();
+  form.append("file", new File([resume], "resume.md", { type: "text/markdown" }));
+  form.append("template", defaultTemplateId);
+  form.append("mode", "fast");
+  const response = await POST(new NextRequest("http://localhost/api/generate", { method: "POST", body: form, ip: IP }));
+  const token = response.cookies.get(OWNER_COOKIE)?.value;
+  return { id: (await response.json()).id, cookie: `${OWNER_COOKIE}=${token}` };
+};
+
+const remove = async (id: string, cookie?: string) => {
+  const { DELETE } = await import("./route");
+  const headers = cookie ? { cookie } : undefined;
+  return DELETE(new NextRequest(`http://localhost/api/portfolios/${id}`, { method: "DELETE", ip: IP, headers }), { params: { id } });
+};
+
+// Ownership comes from the owner cookie, not from the IP or the history list shown in the UI
+describe("DELETE /api/portfolios/{id}", () => {
+  const previousCwd = process.cwd();
+  let workDir: string;
+
+  beforeAll(async () => {
+    process.env.AI_PROVIDER = "mock";
+    process.env.NEXT_PUBLIC_STORAGE_PROVIDER = "local";
+    process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER = "disabled";
+    process.env.KV_PROVIDER = "memory";
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "folioflexxing-"));
+    process.chdir(workDir);
+  });
+
+  afterAll(async () => {
+    process.chdir(previousCwd);
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it("refuses requests from anyone but the owner, even on the same IP", async () => {
+    const { id, cookie } = await generate();
+    const { cookie: otherCookie } = await generate();
+
+    expect(cookie).not.toBe(otherCookie);
+    expect((await remove(id)).status).toBe(404);
+    expect((await remove(id, otherCookie)).status).toBe(404);
+    expect((await remove(id, cookie)).status).toBe(200);
+    expect((await remove(id, cookie)).status).toBe(404);
+  });
+
+  it("deletes portfolios that have dropped out of the history", async () => {
+    const { anonymousOwnerKey } = await import("@/lib/accounts");
+    const { getHistory, removeFromHistory } = await import("@/lib/history");
+    const { id, cookie } = await generate();
+    const ownerKey = anonymousOwnerKey(cookie.slice(OWNER_COOKIE.length + 1));
+    await removeFromHistory(ownerKey, id);
+    expect((await getHistory(ownerKey)).map((record) => record.id)).not.toContain(id);
+
+    const response = await remove(id, cookie);
+    expect(response.status).toBe(200);
+    expect((await response.json()).deletedFiles).toBeGreaterThan(0);
+  });
+
+  it("keeps owners out of the public metadata.json", async () => {
+    const { StorageFactory } = await import("@/lib/storage");
+    const { readPortfolioMetadata } = await import("@/lib/pipeline");
+    const { id } = await generate();
+    const metadata = await readPortfolioMetadata(StorageFactory.getDefaultProvider(), id);
+
+    expect(metadata).not.toHaveProperty("ip");
+    expect(metadata).not.toHaveProperty("ownerId");
+  });
+
+  it("rejects ids that are not portfolio ids", async () => {
+    const { cookie } = await generate();
+    expect((await remove("../../etc", cookie)).status).toBe(404);
+  });
+});
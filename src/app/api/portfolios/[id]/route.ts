@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deletePortfolioOwner, getRequestOwner } from "@/lib/accounts";
+import { StorageFactory } from "@/lib/storage";
+import { removeFromHistory } from "@/lib/history";
+import { releasePortfolioSlug } from "@/lib/slugs";
+import { deletePortfolio, readOwnedPortfolioMetadata, toErrorPayload } from "@/lib/pipeline";
+
+interface RouteParams {
+  params: { id: string };
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const owner = await getRequestOwner(req);
+    const storageProvider = StorageFactory.getDefaultProvider();
+    await readOwnedPortfolioMetadata(storageProvider, params.id, owner);
+
+    const deletedFiles = await deletePortfolio(storageProvider, params.id);
+    await releasePortfolioSlug(params.id);
+    await deletePortfolioOwner(params.id);
+    await removeFromHistory(owner.key, params.id);
+
+    return NextResponse.json({ id: params.id, deletedFiles });
+  } catch (error: any) {
+    const { status, body } = toErrorPayload(error, `/api/portfolios/${params.id}`);
+    return NextResponse.json(body, { status });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestOwner } from "@/lib/accounts";
+import { StorageFactory } from "@/lib/storage";
+import { updateHistoryRecord } from "@/lib/history";
+import { claimSlug, normalizeSlug, releasePortfolioSlug, validateSlug } from "@/lib/slugs";
+import { readOwnedPortfolioMetadata, savePortfolioMetadata, toErrorPayload } from "@/lib/pipeline";
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// Claims or changes the custom URL of a portfolio the caller owns
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  try {
+    const owner = await getRequestOwner(req);
+    const storageProvider = StorageFactory.getDefaultProvider();
+    const metadata = await readOwnedPortfolioMetadata(storageProvider, params.id, owner);
+
+    const body = await req.json();
+    const slug = normalizeSlug(typeof body.slug === "string" ? body.slug : "");
+    const slugError = validateSlug(slug);
+    if (slugError) {
+      return NextResponse.json({ error: slugError }, { status: 400 });
+    }
+
+    if (!(await claimSlug(slug, params.id, owner.key))) {
+      return NextResponse.json({ error: "This URL is already taken." }, { status: 409 });
+    }
+
+    await savePortfolioMetadata(storageProvider, { ...metadata, slug });
+    await updateHistoryRecord(owner.key, params.id, { slug });
+
+    return NextResponse.json({ id: params.id, slug });
+  } catch (error: any) {
+    const { status, body } = toErrorPayload(error, `/api/portfolios/${params.id}/slug`);
+    return NextResponse.json(body, { status });
+  }
+}
+
+// Frees the custom URL; the portfolio stays reachable at its storage URL
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const owner = await getRequestOwner(req);
+    const storageProvider = StorageFactory.getDefaultProvider();
+    const { slug, ...metadata } = await readOwnedPortfolioMetadata(storageProvider, params.id, owner);
+    await releasePortfolioSlug(params.id);
+    if (slug) {
+      await savePortfolioMetadata(storageProvider, metadata);
+    }
+    await updateHistoryRecord(owner.key, params.id, { slug: undefined });
+
+    return NextResponse.json({ id: params.id });
+  } catch (error: any) {
+    const { status, body } = toErrorPayload(error, `/api/portfolios/${params.id}/slug`);
+    return NextResponse.json(body, { status });
+  }
+}
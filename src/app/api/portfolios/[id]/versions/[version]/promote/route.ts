@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestOwner } from "@/lib/accounts";
+import { StorageFactory } from "@/lib/storage";
+import { updateHistoryRecord } from "@/lib/history";
+import { promotePortfolioVersion, readOwnedPortfolioMetadata, toErrorPayload } from "@/lib/pipeline";
+
+interface RouteParams {
+  params: { id: string; version: string };
+}
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const owner = await getRequestOwner(req);
+    const storageProvider = StorageFactory.getDefaultProvider();
+    const metadata = await readOwnedPortfolioMetadata(storageProvider, params.id, owner);
+
+    const version = Number(params.version);
+    if (!Number.isInteger(version) || version < 1) {
+      return NextResponse.json({ error: "Invalid version number." }, { status: 400 });
+    }
+
+    const result = await promotePortfolioVersion({ metadata, version }, storageProvider);
+
+    await updateHistoryRecord(owner.key, params.id, {
+      url: result.url,
+      template: result.metadata.template,
+      updatedAt: result.metadata.updatedAt,
+    });
+
+    return NextResponse.json({ id: result.id, url: result.url, currentVersion: result.metadata.currentVersion });
+  } catch (error: any) {
+    const { status, body } = toErrorPayload(error, `/api/portfolios/${params.id}/versions/${params.version}/promote`);
+    return NextResponse.json(body, { status });
+  }
+}
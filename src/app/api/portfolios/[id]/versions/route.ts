@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestOwner } from "@/lib/accounts";
+import { StorageFactory } from "@/lib/storage";
+import { readOwnedPortfolioMetadata, toErrorPayload } from "@/lib/pipeline";
+
+interface RouteParams {
+  params: { id: string };
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const metadata = await readOwnedPortfolioMetadata(StorageFactory.getDefaultProvider(), params.id, await getRequestOwner(req));
+    return NextResponse.json({
+      currentVersion: metadata.currentVersion,
+      versions: metadata.versions || [],
+    });
+  } catch (error: any) {
+    const { status, body } = toErrorPayload(error, `/api/portfolios/${params.id}/versions`);
+    return NextResponse.json(body, { status });
+  }
+}
@@ -1,26 +1,118 @@
+import net from "net";
 import { NextRequest, NextResponse } from "next/server";
+import { StorageFactory } from "@/lib/storage";
+import type { StorageProvider } from "@/lib/storage";
+import { GenerationError, portfolioHtmlPath, readPortfolioHtmlFile, toErrorPayload } from "@/lib/pipeline";
+import { PORTFOLIO_CSP_HEADER } from "@/lib/sanitizer";
 
-export async function GET(req: NextRequest) {
-  const url = req.nextUrl.searchParams.get("url");
-  
+// Generated pages are tens of kilobytes; anything far larger is not a portfolio we wrote
+const MAX_HTML_BYTES = 2 * 1024 * 1024;
+
+// Current versions are rewritten in place by edits and promotions, so only cache briefly (same as the stored HTML)
+const CACHE_CONTROL = "public, max-age=60";
+
+const isPrivateIPv4 = (address: string) => {
+  const [a, b] = address.split(".").map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local, including cloud metadata endpoints
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224 // Multicast and reserved
+  );
+};
+
+const isPrivateIPv6 = (address: string) => {
+  const normalized = address.toLowerCase();
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+  return (
+    normalized === "::" ||
+    normalized === "::1" ||
+    /^f[cd]/.test(normalized) || // Unique local fc00::/7
+    /^fe[89ab]/.test(normalized) // Link-local fe80::/10
+  );
+};
+
+// Loopback, private and link-local hosts are never accepted, even if storage were configured to serve from one
+const isPrivateHost = (hostname: string) => {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost")) return true;
+  const version = net.isIP(host);
+  if (version === 4) return isPrivateIPv4(host);
+  if (version === 6) return isPrivateIPv6(host);
+  return false;
+};
+
+/**
+ * Maps the request to a storage path: either ?id=<portfolio id>[&version=<n>]
+ * or ?url=<public URL returned by the storage provider>. The URL is only
+ * used to look up the path; the file is always read through the configured
+ * storage provider, so no caller-supplied address is ever fetched.
+ */
+const resolveStoragePath = (req: NextRequest, storageProvider: StorageProvider): string => {
+  const { searchParams } = req.nextUrl;
+  const id = searchParams.get("id");
+  if (id) {
+    const version = searchParams.get("version");
+    if (version !== null && !/^[1-9]\d*$/.test(version)) {
+      throw new GenerationError("Invalid version.", 400);
+    }
+    return portfolioHtmlPath(id, version === null ? undefined : Number(version));
+  }
+
+  const url = searchParams.get("url");
   if (!url) {
-    return NextResponse.json({ error: "URL parameter is required" }, { status: 400 });
+    throw new GenerationError("An id or url parameter is required.", 400);
+  }
+  if (/^[a-z][a-z0-9+.-]*:/i.test(url)) {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new GenerationError("Invalid URL.", 400);
+    }
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+      throw new GenerationError("Only http and https URLs can be displayed.", 400);
+    }
+    if (isPrivateHost(parsed.hostname)) {
+      throw new GenerationError("Private and loopback addresses cannot be displayed.", 403);
+    }
+  }
+
+  const path = storageProvider.getPathFromUrl(url);
+  if (!path) {
+    throw new GenerationError("Only portfolios stored by this app can be displayed.", 403);
   }
+  return path;
+};
+
+const errorResponse = (error: any) => {
+  const { status, body } = toErrorPayload(error, "/api/proxy-html");
+  return NextResponse.json(body, { status, headers: { "Cache-Control": "no-store" } });
+};
 
+export async function GET(req: NextRequest) {
   try {
-    // Fetch the HTML from Vercel Blob
-    const response = await fetch(url);
-    const html = await response.text();
+    const storageProvider = StorageFactory.getDefaultProvider();
+    const html = await readPortfolioHtmlFile(storageProvider, resolveStoragePath(req, storageProvider));
+    if (html.length > MAX_HTML_BYTES) {
+      console.error(`Refusing to serve ${html.length} bytes of portfolio HTML.`);
+      return errorResponse(new GenerationError("This portfolio is too large to display.", 502));
+    }
 
-    // Return with proper headers to display in iframe
-    return new NextResponse(html, {
+    return new NextResponse(html.toString("utf-8"), {
       headers: {
         "Content-Type": "text/html; charset=utf-8",
-        "Cache-Control": "public, max-age=31536000, immutable",
+        "Cache-Control": CACHE_CONTROL,
+        "Content-Security-Policy": PORTFOLIO_CSP_HEADER,
+        "X-Content-Type-Options": "nosniff",
       },
     });
   } catch (error: any) {
-    console.error("Error proxying HTML:", error);
-    return NextResponse.json({ error: "Failed to fetch HTML" }, { status: 500 });
+    return errorResponse(error);
   }
 }
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isSlugAvailable, normalizeSlug, validateSlug } from "@/lib/slugs";
+
+interface RouteParams {
+  params: { slug: string };
+}
+
+// Lets the form check a custom URL before generating
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const slug = normalizeSlug(params.slug);
+    const error = validateSlug(slug);
+    if (error) {
+      return NextResponse.json({ slug, available: false, error });
+    }
+    return NextResponse.json({ slug, available: await isSlugAvailable(slug) });
+  } catch (error: any) {
+    console.error("Error checking slug:", error);
+    return NextResponse.json({ error: error.message || "Failed to check URL" }, { status: 500 });
+  }
+}
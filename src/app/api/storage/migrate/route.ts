@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/admin";
+import { getPortfolioOwner } from "@/lib/accounts";
+import { StorageFactory, isStorageType } from "@/lib/storage";
+import { updateHistoryRecord } from "@/lib/history";
+import { migrateStorage } from "@/lib/pipeline";
+
+// Copies every portfolio between storage providers; runs as a dry run unless "dryRun": false is sent
+export async function POST(req: NextRequest) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { from, to, dryRun = true, overwrite = false } = body;
+    if (typeof from !== "string" || !isStorageType(from)) {
+      return NextResponse.json({ error: `Unknown source storage provider: ${from}` }, { status: 400 });
+    }
+    if (typeof to !== "string" || !isStorageType(to)) {
+      return NextResponse.json({ error: `Unknown target storage provider: ${to}` }, { status: 400 });
+    }
+    if (from === to) {
+      return NextResponse.json({ error: "Source and target storage providers must differ." }, { status: 400 });
+    }
+
+    const report = await migrateStorage(StorageFactory.createProvider(from), StorageFactory.createProvider(to), {
+      dryRun: dryRun !== false,
+      overwrite: overwrite === true,
+      // Point the owner's history entry at the copied files
+      onMigrated: async (metadata, files) => {
+        const ownerKey = await getPortfolioOwner(metadata.id);
+        if (!ownerKey) return;
+        await updateHistoryRecord(ownerKey, metadata.id, {
+          url: files.htmlUrl,
+          metadataUrl: files.metadataUrl,
+          resumeUrl: files.resumeUrl,
+        });
+      },
+    });
+    return NextResponse.json(report);
+  } catch (error: any) {
+    console.error("Error migrating storage:", error);
+    return NextResponse.json({ error: error.message || "Failed to migrate storage" }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest } from "@/lib/admin";
+import { getUsageReport } from "@/lib/usage";
+
+const DEFAULT_REPORT_DAYS = 30;
+
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  try {
+    const days = Number(req.nextUrl.searchParams.get("days")) || DEFAULT_REPORT_DAYS;
+    const report = await getUsageReport(days);
+    return NextResponse.json(report);
+  } catch (error: any) {
+    console.error("Error building usage report:", error);
+    return NextResponse.json({ error: error.message || "Failed to build usage report" }, { status: 500 });
+  }
+}
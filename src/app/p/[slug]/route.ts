@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { StorageFactory } from "@/lib/storage";
+import { normalizeSlug, resolveSlug } from "@/lib/slugs";
+import { readPortfolioHtml, toErrorPayload } from "@/lib/pipeline";
+import { PORTFOLIO_CSP_HEADER } from "@/lib/sanitizer";
+
+interface RouteParams {
+  params: { slug: string };
+}
+
+// Serves the current version of the portfolio a custom URL points at
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const id = await resolveSlug(normalizeSlug(params.slug));
+    if (!id) {
+      return new NextResponse("Portfolio not found.", { status: 404, headers: { "Content-Type": "text/plain; charset=utf-8" } });
+    }
+
+    const html = await readPortfolioHtml(StorageFactory.getDefaultProvider(), id);
+    return new NextResponse(html, {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        // Same short lifetime as the stored HTML, since edits and promotions rewrite it in place
+        "Cache-Control": "public, max-age=60",
+        "Content-Security-Policy": PORTFOLIO_CSP_HEADER,
+      },
+    });
+  } catch (error: any) {
+    const { status, body } = toErrorPayload(error, `/p/${params.slug}`);
+    return new NextResponse(body.error, { status, headers: { "Content-Type": "text/plain; charset=utf-8" } });
+  }
+}
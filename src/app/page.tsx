@@ -1,28 +1,89 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import ReCAPTCHA from "react-google-recaptcha";
+import ResumeEditor from "@/components/ResumeEditor";
+import VersionPicker from "@/components/VersionPicker";
+import AccountPanel from "@/components/AccountPanel";
+import CaptchaWidget from "@/components/CaptchaWidget";
+import { acceptedFileTypes, acceptedFormatLabels } from "@/lib/extractors/formats";
+import { getCaptchaType } from "@/lib/captcha/config";
+import { templates, defaultTemplateId } from "@/lib/templates";
+import type { GenerationEvent, GenerationStage, PortfolioRenderer } from "@/lib/pipeline";
 
-const templates = [
-  { id: "elegant-serif", name: "Elegant Serif", description: "Sophisticated two-column layout with refined typography" },
-  { id: "neo-brutalism", name: "Neo Brutalism", description: "Bold colors, heavy shadows, and raw geometric shapes" },
-  { id: "minimal-cards", name: "Minimal Cards", description: "Clean grid-based design with project cards" },
-  { id: "dark-modern", name: "Dark Modern", description: "Contemporary dark theme with accent colors" },
-  { id: "fluid-gradient", name: "Fluid Gradient", description: "Fluid gradients with frosted glass and premium spacing" },
-  { id: "bento-grid", name: "Bento Grid", description: "Modular card layout with monochromatic palette and 3D depth" },
-];
+const generationStages: GenerationStage[] = ["parsed", "validated", "structured", "generating", "stored"];
+
+// Describes what the server is working on after each completed stage
+const progressLabel = (progress: GenerationEvent | null) => {
+  switch (progress?.stage) {
+    case undefined:
+      return "Reading your resume...";
+    case "parsed":
+      return "Checking your resume...";
+    case "validated":
+      return "Extracting your experience...";
+    case "structured":
+      return "Designing your portfolio...";
+    case "generating":
+      return progress.attempt
+        ? `Improving the design, attempt ${progress.attempt} (~${progress.tokens} tokens)...`
+        : `Designing your portfolio (~${progress.tokens} tokens)...`;
+    case "stored":
+      return "Publishing...";
+  }
+};
+
+// Reads the Server-Sent Events stream from /api/generate and resolves with the new portfolio
+const readGenerationStream = async (
+  body: ReadableStream<Uint8Array>,
+  onProgress: (event: GenerationEvent) => void
+): Promise<{ id: string; url: string; renderer?: PortfolioRenderer }> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const frames = buffer.split("\n\n");
+    buffer = frames.pop() || "";
+    for (const frame of frames) {
+      const event = frame.match(/^event: (.*)$/m)?.[1];
+      const data = frame.match(/^data: (.*)$/m)?.[1];
+      if (!event || !data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === "progress") onProgress(payload);
+      if (event === "done") return payload;
+      if (event === "error") throw new Error(payload.error || "An unknown error occurred.");
+    }
+  }
+
+  throw new Error("The connection closed before the portfolio was ready.");
+};
 
 export default function Home() {
   const [file, setFile] = useState<File | null>(null);
   const [image, setImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<GenerationEvent | null>(null);
   const [resultUrl, setResultUrl] = useState<string | null>(null);
-  const isAbsoluteUrl = process.env.NEXT_PUBLIC_STORAGE_PROVIDER === 'vercel-blob';
+  const [resultId, setResultId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [versionsId, setVersionsId] = useState<string | null>(null);
+  // Blob and bucket pages are shown through the proxy, which adds the CSP header their hosts cannot send
+  const isAbsoluteUrl = (process.env.NEXT_PUBLIC_STORAGE_PROVIDER || 'local') !== 'local';
+  const viewUrl = (url: string) => isAbsoluteUrl ? `/api/proxy-html?url=${encodeURIComponent(url)}` : url;
+  const captchaRequired = getCaptchaType() !== "disabled";
   const [error, setError] = useState<string | null>(null);
-  const [selectedTemplate, setSelectedTemplate] = useState(templates[0].id);
-  const [recaptchaToken, setRecaptchaToken] = useState<string | null>(null);
-  const [recaptchaVerified, setRecaptchaVerified] = useState(false);
+  const [selectedTemplate, setSelectedTemplate] = useState(defaultTemplateId);
+  const [fastMode, setFastMode] = useState(false);
+  const [slug, setSlug] = useState("");
+  const [usedFallback, setUsedFallback] = useState(false);
+  const [captchaToken, setCaptchaToken] = useState<string | null>(null);
+  const [captchaVerified, setCaptchaVerified] = useState(false);
   const [copied, setCopied] = useState(false);
   const [history, setHistory] = useState<any[]>([]);
   const [showHistory, setShowHistory] = useState(false);
@@ -45,10 +106,10 @@ export default function Home() {
     }
   };
 
-  const handleRecaptchaChange = (token: string | null) => {
-    setRecaptchaToken(token);
+  const handleCaptchaChange = (token: string | null) => {
+    setCaptchaToken(token);
     if (token) {
-      setRecaptchaVerified(true);
+      setCaptchaVerified(true);
     }
   };
 
@@ -66,12 +127,16 @@ export default function Home() {
     fetchHistory();
   }, []);
 
+  // A custom URL is preferred; otherwise absolute URLs (Vercel Blob, S3) are shared through the proxy
+  const resultSlug = history.find((item) => item.id === resultId)?.slug;
+  const shareableUrl = !resultUrl
+    ? null
+    : resultSlug
+      ? `${window.location.origin}/p/${resultSlug}`
+      : `${window.location.origin}${viewUrl(resultUrl)}`;
+
   const handleCopyUrl = () => {
-    if (resultUrl) {
-      // For absolute URLs (Vercel Blob), create a proxied URL
-      const shareableUrl = isAbsoluteUrl 
-        ? `${window.location.origin}/api/proxy-html?url=${encodeURIComponent(resultUrl)}`
-        : `${window.location.origin}${resultUrl}`;
+    if (shareableUrl) {
       navigator.clipboard.writeText(shareableUrl);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
@@ -94,25 +159,98 @@ export default function Home() {
     }
   };
 
+  // The current-version URL is stable, so bust the cache to reload the preview
+  const withCacheBuster = (url: string) => `${url}${url.includes('?') ? '&' : '?'}v=${Date.now()}`;
+
+  const handleRegenerated = async (url: string) => {
+    setResultId(editingId);
+    setResultUrl(withCacheBuster(url));
+    await fetchHistory();
+  };
+
+  const handleVersionPromoted = async (id: string, url: string) => {
+    setResultId(id);
+    setResultUrl(withCacheBuster(url));
+    await fetchHistory();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Delete this portfolio? Its page and all versions will be removed permanently.")) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/portfolios/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to delete portfolio");
+      }
+
+      if (resultId === id) {
+        setResultId(null);
+        setResultUrl(null);
+      }
+      if (editingId === id) setEditingId(null);
+      if (versionsId === id) setVersionsId(null);
+      await fetchHistory();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleSetSlug = async (id: string, currentSlug?: string) => {
+    const value = window.prompt("Choose a custom URL for this portfolio (letters, numbers and hyphens):", currentSlug || "");
+    if (value === null || value.trim() === (currentSlug || "")) {
+      return;
+    }
+
+    try {
+      const response = value.trim()
+        ? await fetch(`/api/portfolios/${id}/slug`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ slug: value }),
+          })
+        : await fetch(`/api/portfolios/${id}/slug`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to update the custom URL");
+      }
+      await fetchHistory();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (!file) {
-      setError("Please select a PDF file to upload.");
+      setError("Please select a resume file to upload.");
       return;
     }
-    if (!recaptchaToken) {
-      setError("Please complete the reCAPTCHA.");
+    if (captchaRequired && !captchaToken) {
+      setError("Please complete the captcha.");
       return;
     }
 
     setLoading(true);
+    setProgress(null);
     setError(null);
     setResultUrl(null);
+    setResultId(null);
+    setEditingId(null);
+    setUsedFallback(false);
 
     const formData = new FormData();
     formData.append("file", file);
     formData.append("template", selectedTemplate);
-    formData.append("recaptchaToken", recaptchaToken);
+    formData.append("mode", fastMode ? "fast" : "ai");
+    if (captchaToken) {
+      formData.append("captchaToken", captchaToken);
+    }
+    if (slug.trim()) {
+      formData.append("slug", slug.trim());
+    }
     if (image) {
       formData.append("image", image);
     }
@@ -120,26 +258,31 @@ export default function Home() {
     try {
       const response = await fetch("/api/generate", {
         method: "POST",
+        headers: { Accept: "text/event-stream" },
         body: formData,
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         const errorData = await response.json();
         throw new Error(errorData.error || "An unknown error occurred.");
       }
 
-      const data = await response.json();
-      setResultUrl(data.url);
+      const { id, url, renderer } = await readGenerationStream(response.body, setProgress);
+      setResultId(id);
+      setResultUrl(url);
+      // The built-in renderer only runs in AI mode when the model failed or timed out
+      setUsedFallback(!fastMode && renderer === "builtin");
       await fetchHistory();
+      setSlug("");
       
       // Reset form for next generation
-      setRecaptchaVerified(false);
-      setRecaptchaToken(null);
+      setCaptchaVerified(false);
+      setCaptchaToken(null);
     } catch (err: any) {
       setError(err.message);
-      // Reset reCAPTCHA on error so user can try again
-      setRecaptchaVerified(false);
-      setRecaptchaToken(null);
+      // Reset the captcha on error so user can try again
+      setCaptchaVerified(false);
+      setCaptchaToken(null);
     } finally {
       setLoading(false);
     }
@@ -167,7 +310,7 @@ export default function Home() {
                 onClick={() => !file && document.getElementById('file-upload')?.click()}
                 className="w-full flex items-center justify-between text-left text-sm font-medium text-gray-300 mb-2 hover:text-gray-100 transition-colors"
               >
-                <span>1. Upload PDF Resume {file && '✓'}</span>
+                <span>1. Upload Resume {file && '✓'}</span>
                 {file && (
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
@@ -183,12 +326,12 @@ export default function Home() {
                   <div className="flex text-sm text-gray-400">
                     <label htmlFor="file-upload" className="relative cursor-pointer rounded-md font-medium text-gray-200 hover:text-white focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-gray-500">
                       <span>Upload a file</span>
-                      <input id="file-upload" name="file-upload" type="file" className="sr-only" onChange={handleFileChange} accept=".pdf" />
+                      <input id="file-upload" name="file-upload" type="file" className="sr-only" onChange={handleFileChange} accept={acceptedFileTypes} />
                     </label>
                     <p className="pl-1">or drag and drop</p>
                   </div>
                   <p className="text-xs text-gray-500">
-                    PDF up to 10MB
+                    {acceptedFormatLabels.join(", ")} up to 10MB
                   </p>
                 </div>
               </div>
@@ -282,22 +425,48 @@ export default function Home() {
                   </label>
                 ))}
               </div>
+              <label className="flex items-start gap-3 mt-3 p-3 border border-gray-600 rounded-lg bg-gray-800/50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={fastMode}
+                  onChange={(e) => setFastMode(e.target.checked)}
+                  className="mt-0.5 h-4 w-4 rounded border-gray-500 bg-gray-700"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-100">Fast mode</span>
+                  <span className="block text-xs text-gray-400 leading-tight">
+                    Lay out the page with the built-in renderer instead of an AI design. Quicker and works offline, but less unique.
+                  </span>
+                </span>
+              </label>
+              <label htmlFor="slug" className="block text-sm font-medium text-gray-300 mt-3 mb-2">
+                Custom URL (Optional)
+              </label>
+              <div className="flex items-center border border-gray-600 rounded-lg bg-gray-800/50 focus-within:border-gray-400">
+                <span className="pl-3 text-sm text-gray-500 font-mono">/p/</span>
+                <input
+                  id="slug"
+                  type="text"
+                  value={slug}
+                  onChange={(e) => setSlug(e.target.value.toLowerCase())}
+                  placeholder="jane-doe"
+                  maxLength={40}
+                  className="flex-1 bg-transparent px-1 py-2 text-sm text-gray-100 font-mono placeholder-gray-600 focus:outline-none"
+                />
+              </div>
             </div>
             )}
             
-            {/* reCAPTCHA */}
-            {file && !loading && (
+            {/* Captcha */}
+            {captchaRequired && file && !loading && (
               <>
-                {!recaptchaVerified && (
+                {!captchaVerified && (
                   <div className="flex justify-center">
-                      <ReCAPTCHA
-                          sitekey={process.env.NEXT_PUBLIC_RECAPTCHA_SITE_KEY!}
-                          onChange={handleRecaptchaChange}
-                      />
+                      <CaptchaWidget onChange={handleCaptchaChange} />
                   </div>
                 )}
                 
-                {recaptchaVerified && (
+                {captchaVerified && (
                   <div className="flex items-center justify-center gap-2 p-3 bg-green-900/30 border border-green-700 rounded-lg">
                     <svg className="w-5 h-5 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -312,7 +481,7 @@ export default function Home() {
             <div>
               <button
                 type="submit"
-                disabled={loading || !file || !recaptchaToken}
+                disabled={loading || !file || (captchaRequired && !captchaToken)}
                 className="w-full flex justify-center items-center gap-2 py-4 px-6 border border-transparent rounded-lg shadow-lg text-base font-semibold text-black bg-white hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed transition-all"
               >
                 {loading ? (
@@ -321,7 +490,7 @@ export default function Home() {
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    <span>Generating...</span>
+                    <span>{progressLabel(progress)}</span>
                   </>
                 ) : (
                   <>
@@ -332,6 +501,18 @@ export default function Home() {
                   </>
                 )}
               </button>
+              {loading && (
+                <div className="mt-3 flex gap-1" aria-hidden="true">
+                  {generationStages.map((stage, index) => (
+                    <div
+                      key={stage}
+                      className={`h-1 flex-1 rounded-full transition-colors duration-500 ${
+                        progress && index <= generationStages.indexOf(progress.stage) ? 'bg-white' : 'bg-gray-700'
+                      }`}
+                    />
+                  ))}
+                </div>
+              )}
             </div>
           </form>
 
@@ -341,6 +522,25 @@ export default function Home() {
             </div>
           )}
 
+          {usedFallback && resultUrl && (
+            <div className="p-4 mt-6 text-sm text-yellow-200 bg-yellow-900/40 border border-yellow-800 rounded-lg" role="status">
+              The AI designer was unavailable, so your portfolio was laid out with the built-in renderer. Edit and regenerate later for an AI design.
+            </div>
+          )}
+
+          {/* Resume Data Editor */}
+          {editingId && (
+            <ResumeEditor
+              key={editingId}
+              portfolioId={editingId}
+              onRegenerated={handleRegenerated}
+              onClose={() => setEditingId(null)}
+            />
+          )}
+
+          {/* Account */}
+          <AccountPanel onChange={fetchHistory} />
+
           {/* Portfolio History */}
           {history.length > 0 && (
             <div className="mt-8">
@@ -357,25 +557,76 @@ export default function Home() {
               {showHistory && (
                 <div className="mt-3 space-y-2">
                   {history.map((item) => (
-                    <a
+                    <div
                       key={item.id}
-                      href={item.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="block p-3 bg-gray-800/50 border border-gray-700 rounded-lg hover:border-gray-400 transition-colors"
+                      className="p-3 bg-gray-800/50 border border-gray-700 rounded-lg hover:border-gray-400 transition-colors"
                     >
-                      <div className="flex items-center justify-between">
-                        <div className="flex-1 min-w-0">
-                          <p className="text-sm font-medium text-gray-200 truncate">{item.fileName}</p>
-                          <p className="text-xs text-gray-500 mt-0.5">
-                            {item.template} • {new Date(item.createdAt).toLocaleDateString()}
-                          </p>
-                        </div>
-                        <svg className="w-4 h-4 text-gray-400 flex-shrink-0 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                        </svg>
+                      <div className="flex items-center gap-2">
+                        <a
+                          href={item.slug ? `/p/${item.slug}` : viewUrl(item.url)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="block flex-1 min-w-0"
+                        >
+                          <div className="flex items-center justify-between">
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-medium text-gray-200 truncate">{item.fileName}</p>
+                              <p className="text-xs text-gray-500 mt-0.5">
+                                {item.template} • {new Date(item.createdAt).toLocaleDateString()}
+                              </p>
+                            </div>
+                            <svg className="w-4 h-4 text-gray-400 flex-shrink-0 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                            </svg>
+                          </div>
+                        </a>
+                        {item.resumeUrl && (
+                          <button
+                            type="button"
+                            onClick={() => setEditingId(item.id)}
+                            className="text-xs text-gray-400 hover:text-gray-200 flex-shrink-0"
+                          >
+                            Edit
+                          </button>
+                        )}
+                        {item.metadataUrl && (
+                          <button
+                            type="button"
+                            onClick={() => setVersionsId(versionsId === item.id ? null : item.id)}
+                            className="text-xs text-gray-400 hover:text-gray-200 flex-shrink-0"
+                          >
+                            Versions
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => handleSetSlug(item.id, item.slug)}
+                          className="text-xs text-gray-400 hover:text-gray-200 flex-shrink-0"
+                          title={item.slug ? `/p/${item.slug}` : "Choose a custom URL"}
+                        >
+                          URL
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(item.id)}
+                          className="text-xs text-gray-400 hover:text-red-400 flex-shrink-0"
+                        >
+                          Delete
+                        </button>
                       </div>
-                    </a>
+                      {versionsId === item.id && (
+                        <div className="mt-2">
+                          <VersionPicker
+                            portfolioId={item.id}
+                            onPreview={(url) => {
+                              setResultId(item.id);
+                              setResultUrl(url);
+                            }}
+                            onPromoted={(url) => handleVersionPromoted(item.id, url)}
+                          />
+                        </div>
+                      )}
+                    </div>
                   ))}
                 </div>
               )}
@@ -390,7 +641,7 @@ export default function Home() {
           {resultUrl && (
             <>
               <iframe 
-                src={isAbsoluteUrl ? `/api/proxy-html?url=${encodeURIComponent(resultUrl)}` : resultUrl} 
+                src={viewUrl(resultUrl)} 
                 className="w-full flex-1 border-none" 
                 title="Portfolio Preview" 
               />
@@ -403,7 +654,7 @@ export default function Home() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
                   </svg>
                   <span className="text-sm text-gray-300 truncate font-mono">
-                    {isAbsoluteUrl ? `${window.location.origin}/api/proxy-html?url=${encodeURIComponent(resultUrl)}` : `${window.location.origin}${resultUrl}`}
+                    {shareableUrl}
                   </span>
                 </div>
 
@@ -430,6 +681,35 @@ export default function Home() {
                   )}
                 </button>
 
+                {/* Edit Button */}
+                {resultId && (
+                  <button
+                    onClick={() => setEditingId(resultId)}
+                    className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    title="Edit resume data"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                    </svg>
+                    <span className="text-sm font-medium">Edit</span>
+                  </button>
+                )}
+
+                {/* Export JSON Resume */}
+                {resultId && (
+                  <a
+                    href={`/api/portfolios/${resultId}/json-resume`}
+                    download="resume.json"
+                    className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    title="Export as JSON Resume"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+                    </svg>
+                    <span className="text-sm font-medium">JSON</span>
+                  </a>
+                )}
+
                 {/* Download Button */}
                 <button
                   onClick={handleDownloadHtml}
@@ -444,7 +724,7 @@ export default function Home() {
 
                 {/* Open in New Tab */}
                 <a
-                  href={isAbsoluteUrl ? `/api/proxy-html?url=${encodeURIComponent(resultUrl)}` : resultUrl}
+                  href={viewUrl(resultUrl)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
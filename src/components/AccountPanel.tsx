@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface AccountPanelProps {
+  onChange: () => void; // Called after signing out or claiming, when the history to show has changed
+}
+
+interface SessionUser {
+  id: string;
+  email: string;
+}
+
+export default function AccountPanel({ onChange }: AccountPanelProps) {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [claimable, setClaimable] = useState(0);
+  const [email, setEmail] = useState("");
+  const [sent, setSent] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSession = async () => {
+    try {
+      const response = await fetch("/api/auth/session");
+      const body = await response.json();
+      setUser(body.user);
+      setClaimable(body.claimable || 0);
+    } catch (err) {
+      console.error("Failed to fetch session:", err);
+    }
+  };
+
+  useEffect(() => {
+    loadSession();
+    // The sign-in link redirects back here with ?signIn=expired when it could not be used
+    const signIn = new URLSearchParams(window.location.search).get("signIn");
+    if (signIn) {
+      setError(signIn === "expired" ? "That sign-in link has expired or was already used." : "Signing in failed. Please try again.");
+    }
+  }, []);
+
+  const request = async (url: string, init: RequestInit, fallbackError: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, init);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || fallbackError);
+      }
+      return body;
+    } catch (err: any) {
+      setError(err.message);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSendLink = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const body = await request(
+      "/api/auth/magic-link",
+      { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ email }) },
+      "Failed to send the sign-in link."
+    );
+    if (body) setSent(true);
+  };
+
+  const handleSignOut = async () => {
+    if (await request("/api/auth/logout", { method: "POST" }, "Failed to sign out.")) {
+      setUser(null);
+      setClaimable(0);
+      onChange();
+    }
+  };
+
+  const handleClaim = async () => {
+    if (await request("/api/account/claim", { method: "POST" }, "Failed to claim portfolios.")) {
+      setClaimable(0);
+      onChange();
+    }
+  };
+
+  return (
+    <div className="mt-8 p-3 border border-gray-700 rounded-lg bg-gray-800/30 text-sm">
+      {user ? (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-gray-300 truncate">Signed in as {user.email}</span>
+            <button
+              type="button"
+              onClick={handleSignOut}
+              disabled={busy}
+              className="text-xs text-gray-400 hover:text-gray-200 flex-shrink-0"
+            >
+              Sign out
+            </button>
+          </div>
+          {claimable > 0 && (
+            <div className="flex items-center justify-between gap-2 p-2 bg-gray-800 border border-gray-600 rounded">
+              <span className="text-xs text-gray-300">
+                {claimable} portfolio{claimable === 1 ? "" : "s"} created in this browser before signing in.
+              </span>
+              <button
+                type="button"
+                onClick={handleClaim}
+                disabled={busy}
+                className="text-xs font-medium text-white hover:text-gray-300 flex-shrink-0"
+              >
+                Add to my account
+              </button>
+            </div>
+          )}
+        </div>
+      ) : sent ? (
+        <p className="text-gray-300">Check your inbox for a sign-in link.</p>
+      ) : (
+        <form onSubmit={handleSendLink} className="flex items-center gap-2">
+          <input
+            type="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email to keep your portfolios"
+            className="flex-1 min-w-0 px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-100 placeholder-gray-500 focus:outline-none focus:border-gray-400"
+          />
+          <button
+            type="submit"
+            disabled={busy || !email}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded disabled:opacity-50 flex-shrink-0"
+          >
+            Sign in
+          </button>
+        </form>
+      )}
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import ReCAPTCHA from "react-google-recaptcha";
+import { getCaptchaSiteKey, getCaptchaType } from "@/lib/captcha/config";
+
+interface CaptchaWidgetProps {
+  onChange: (token: string | null) => void; // null when the token expired or the challenge failed
+}
+
+// hCaptcha and Turnstile share the same explicit rendering API on a window global
+interface ExplicitCaptchaApi {
+  render(container: HTMLElement, options: Record<string, unknown>): string;
+  remove(widgetId: string): void;
+}
+
+type ExplicitCaptchaType = "hcaptcha" | "turnstile";
+
+declare global {
+  interface Window {
+    hcaptcha?: ExplicitCaptchaApi;
+    turnstile?: ExplicitCaptchaApi;
+  }
+}
+
+const explicitScripts: Record<ExplicitCaptchaType, string> = {
+  hcaptcha: "https://js.hcaptcha.com/1/api.js?render=explicit",
+  turnstile: "https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit",
+};
+
+// Each script is added to the page once, however often the widget mounts
+const scriptLoads = new Map<string, Promise<void>>();
+
+const loadScript = (src: string): Promise<void> => {
+  let load = scriptLoads.get(src);
+  if (!load) {
+    load = new Promise((resolve, reject) => {
+      const script = document.createElement("script");
+      script.src = src;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        scriptLoads.delete(src);
+        script.remove();
+        reject(new Error(`Failed to load ${src}`));
+      };
+      document.head.appendChild(script);
+    });
+    scriptLoads.set(src, load);
+  }
+  return load;
+};
+
+const explicitApi = (type: ExplicitCaptchaType) => window[type];
+
+function ExplicitCaptcha({ type, siteKey, onChange }: CaptchaWidgetProps & { type: ExplicitCaptchaType; siteKey: string }) {
+  const container = useRef<HTMLDivElement>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    let cancelled = false;
+    let widgetId: string | undefined;
+
+    loadScript(explicitScripts[type])
+      .then(() => {
+        const api = explicitApi(type);
+        if (cancelled || !api || !container.current) return;
+        widgetId = api.render(container.current, {
+          sitekey: siteKey,
+          callback: (token: string) => onChangeRef.current(token),
+          "expired-callback": () => onChangeRef.current(null),
+          "error-callback": () => onChangeRef.current(null),
+        });
+      })
+      .catch((err) => console.error("Failed to load the captcha:", err));
+
+    return () => {
+      cancelled = true;
+      if (widgetId !== undefined) explicitApi(type)?.remove(widgetId);
+    };
+  }, [type, siteKey]);
+
+  return <div ref={container} />;
+}
+
+/**
+ * Renders the captcha chosen by NEXT_PUBLIC_CAPTCHA_PROVIDER, or nothing
+ * when it is disabled.
+ */
+export default function CaptchaWidget({ onChange }: CaptchaWidgetProps) {
+  const type = getCaptchaType();
+  const siteKey = getCaptchaSiteKey();
+
+  switch (type) {
+    case "recaptcha":
+      return <ReCAPTCHA sitekey={siteKey} onChange={onChange} />;
+    case "hcaptcha":
+    case "turnstile":
+      return <ExplicitCaptcha type={type} siteKey={siteKey} onChange={onChange} />;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ResumeData } from "@/lib/resume";
+
+interface ResumeEditorProps {
+  portfolioId: string;
+  onRegenerated: (url: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-sm text-gray-100 placeholder-gray-500 focus:outline-none focus:border-gray-400";
+const labelClass = "block text-xs font-medium text-gray-400 mb-1";
+const sectionClass = "space-y-3 pt-4 border-t border-gray-700";
+
+// List fields are edited as one item per line; blank lines are dropped when the server validates the data
+const toLines = (items: string[]) => items.join("\n");
+const fromLines = (text: string) => text.split("\n");
+
+export default function ResumeEditor({ portfolioId, onRegenerated, onClose }: ResumeEditorProps) {
+  const [data, setData] = useState<ResumeData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadResume = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/portfolios/${portfolioId}/resume`);
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || "Failed to load resume data.");
+        }
+        setData(body.data);
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadResume();
+  }, [portfolioId]);
+
+  const update = (changes: Partial<ResumeData>) => {
+    setData((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  const updateItem = <K extends "workExperience" | "education" | "projects">(
+    key: K,
+    index: number,
+    changes: Partial<ResumeData[K][number]>
+  ) => {
+    if (!data) return;
+    update({ [key]: data[key].map((item, i) => (i === index ? { ...item, ...changes } : item)) } as Partial<ResumeData>);
+  };
+
+  const removeItem = (key: "workExperience" | "education" | "projects", index: number) => {
+    if (!data) return;
+    update({ [key]: data[key].filter((_, i) => i !== index) } as Partial<ResumeData>);
+  };
+
+  const handleRegenerate = async () => {
+    if (!data) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/portfolios/${portfolioId}/resume`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ data }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error([body.error, ...(body.details || [])].filter(Boolean).join(" ") || "Failed to regenerate portfolio.");
+      }
+      setData(body.data);
+      onRegenerated(body.url);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 p-4 bg-gray-800/50 border border-gray-700 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-gray-100">Edit Resume Data</h2>
+        <button type="button" onClick={onClose} className="text-xs text-gray-400 hover:text-gray-200">
+          Close
+        </button>
+      </div>
+
+      {loading && <p className="text-sm text-gray-400">Loading resume data...</p>}
+
+      {data && (
+        <>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              {(["name", "email", "phone", "linkedin", "github"] as const).map((field) => (
+                <div key={field} className={field === "name" ? "col-span-2" : ""}>
+                  <label className={labelClass}>{field.charAt(0).toUpperCase() + field.slice(1)}</label>
+                  <input
+                    className={inputClass}
+                    value={data.personalInfo[field]}
+                    onChange={(e) => update({ personalInfo: { ...data.personalInfo, [field]: e.target.value } })}
+                  />
+                </div>
+              ))}
+            </div>
+            <div>
+              <label className={labelClass}>Summary</label>
+              <textarea
+                className={inputClass}
+                rows={3}
+                value={data.summary}
+                onChange={(e) => update({ summary: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className={sectionClass}>
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-300">Work Experience</h3>
+            {data.workExperience.map((job, index) => (
+              <div key={index} className="space-y-2 p-3 bg-gray-900/50 rounded-lg">
+                <div className="grid grid-cols-2 gap-2">
+                  <input className={inputClass} placeholder="Company" value={job.company} onChange={(e) => updateItem("workExperience", index, { company: e.target.value })} />
+                  <input className={inputClass} placeholder="Role" value={job.role} onChange={(e) => updateItem("workExperience", index, { role: e.target.value })} />
+                </div>
+                <input className={inputClass} placeholder="Dates" value={job.dates} onChange={(e) => updateItem("workExperience", index, { dates: e.target.value })} />
+                <textarea
+                  className={inputClass}
+                  rows={3}
+                  placeholder="Responsibilities (one per line)"
+                  value={toLines(job.responsibilities)}
+                  onChange={(e) => updateItem("workExperience", index, { responsibilities: fromLines(e.target.value) })}
+                />
+                <button type="button" onClick={() => removeItem("workExperience", index)} className="text-xs text-red-400 hover:text-red-300">
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => update({ workExperience: [...data.workExperience, { company: "", role: "", dates: "", responsibilities: [] }] })}
+              className="text-xs text-gray-300 hover:text-white"
+            >
+              + Add position
+            </button>
+          </div>
+
+          <div className={sectionClass}>
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-300">Education</h3>
+            {data.education.map((education, index) => (
+              <div key={index} className="space-y-2 p-3 bg-gray-900/50 rounded-lg">
+                <input className={inputClass} placeholder="Institution" value={education.institution} onChange={(e) => updateItem("education", index, { institution: e.target.value })} />
+                <div className="grid grid-cols-2 gap-2">
+                  <input className={inputClass} placeholder="Degree" value={education.degree} onChange={(e) => updateItem("education", index, { degree: e.target.value })} />
+                  <input className={inputClass} placeholder="Dates" value={education.dates} onChange={(e) => updateItem("education", index, { dates: e.target.value })} />
+                </div>
+                <button type="button" onClick={() => removeItem("education", index)} className="text-xs text-red-400 hover:text-red-300">
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => update({ education: [...data.education, { institution: "", degree: "", dates: "" }] })}
+              className="text-xs text-gray-300 hover:text-white"
+            >
+              + Add education
+            </button>
+          </div>
+
+          <div className={sectionClass}>
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-300">Projects</h3>
+            {data.projects.map((project, index) => (
+              <div key={index} className="space-y-2 p-3 bg-gray-900/50 rounded-lg">
+                <input className={inputClass} placeholder="Name" value={project.name} onChange={(e) => updateItem("projects", index, { name: e.target.value })} />
+                <textarea className={inputClass} rows={2} placeholder="Description" value={project.description} onChange={(e) => updateItem("projects", index, { description: e.target.value })} />
+                <textarea
+                  className={inputClass}
+                  rows={2}
+                  placeholder="Technologies (one per line)"
+                  value={toLines(project.technologies)}
+                  onChange={(e) => updateItem("projects", index, { technologies: fromLines(e.target.value) })}
+                />
+                <button type="button" onClick={() => removeItem("projects", index)} className="text-xs text-red-400 hover:text-red-300">
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => update({ projects: [...data.projects, { name: "", description: "", technologies: [] }] })}
+              className="text-xs text-gray-300 hover:text-white"
+            >
+              + Add project
+            </button>
+          </div>
+
+          <div className={sectionClass}>
+            <label className={labelClass}>Skills (one per line)</label>
+            <textarea
+              className={inputClass}
+              rows={4}
+              value={toLines(data.skills)}
+              onChange={(e) => update({ skills: fromLines(e.target.value) })}
+            />
+          </div>
+
+          <button
+            type="button"
+            onClick={handleRegenerate}
+            disabled={saving}
+            className="w-full py-3 px-6 rounded-lg text-sm font-semibold text-black bg-white hover:bg-gray-200 disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed transition-all"
+          >
+            {saving ? "Regenerating..." : "Save & Regenerate"}
+          </button>
+        </>
+      )}
+
+      {error && (
+        <div className="p-3 text-sm text-red-200 bg-red-900/50 border border-red-800 rounded-lg" role="alert">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { PortfolioVersion } from "@/lib/pipeline";
+
+interface VersionPickerProps {
+  portfolioId: string;
+  onPreview: (url: string) => void;
+  onPromoted: (url: string) => void;
+}
+
+export default function VersionPicker({ portfolioId, onPreview, onPromoted }: VersionPickerProps) {
+  const [versions, setVersions] = useState<PortfolioVersion[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [promoting, setPromoting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadVersions = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/portfolios/${portfolioId}/versions`);
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || "Failed to load versions.");
+        }
+        setVersions(body.versions);
+        setCurrentVersion(body.currentVersion);
+        setSelectedVersion(body.currentVersion);
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadVersions();
+  }, [portfolioId]);
+
+  const handleSelect = (version: number) => {
+    setSelectedVersion(version);
+    const entry = versions.find((candidate) => candidate.version === version);
+    if (entry) onPreview(entry.htmlUrl);
+  };
+
+  const handlePromote = async () => {
+    if (selectedVersion === null) return;
+    setPromoting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/portfolios/${portfolioId}/versions/${selectedVersion}/promote`, { method: "POST" });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || "Failed to restore version.");
+      }
+      setCurrentVersion(body.currentVersion);
+      onPromoted(body.url);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setPromoting(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-xs text-gray-500">Loading versions...</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {versions.length > 0 && (
+        <div className="flex items-center gap-2">
+          <select
+            value={selectedVersion ?? ""}
+            onChange={(e) => handleSelect(Number(e.target.value))}
+            className="flex-1 min-w-0 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-xs text-gray-200 focus:outline-none focus:border-gray-400"
+          >
+            {[...versions].reverse().map((entry) => (
+              <option key={entry.version} value={entry.version}>
+                v{entry.version} • {entry.template} • {new Date(entry.createdAt).toLocaleString()}
+                {entry.version === currentVersion ? " (current)" : ""}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handlePromote}
+            disabled={promoting || selectedVersion === currentVersion}
+            className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-xs text-white rounded disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            {promoting ? "Restoring..." : "Make current"}
+          </button>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
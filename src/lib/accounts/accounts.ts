@@ -0,0 +1,77 @@
+import crypto from "crypto";
+import { KVFactory } from "@/lib/kv";
+import { User } from "./types";
+
+// Key-value store for users, sign-in links and sessions
+const kv = () => KVFactory.getDefaultStore();
+
+const MAGIC_LINK_TTL_SECONDS = 15 * 60;
+export const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Only hashes of tokens are stored, so a leaked database cannot be used to sign in
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+const createToken = () => crypto.randomBytes(32).toString("base64url");
+
+const userKey = (id: string) => `user:${id}`;
+const userEmailKey = (email: string) => `user:email:${email}`;
+const magicLinkKey = (token: string) => `auth:link:${hashToken(token)}`;
+const sessionKey = (token: string) => `auth:session:${hashToken(token)}`;
+
+export const userOwnerKey = (userId: string) => `user:${userId}`;
+
+// Anonymous creators are known by the random token in their owner cookie
+export const anonymousOwnerKey = (ownerToken: string) => `anonymous:${hashToken(ownerToken)}`;
+
+export const createOwnerToken = createToken;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const isValidEmail = (email: string) => email.length <= 254 && EMAIL_PATTERN.test(email);
+
+async function findOrCreateUser(email: string): Promise<User> {
+  const existingId = await kv().get<string>(userEmailKey(email));
+  if (existingId) {
+    const user = await kv().get<User>(userKey(existingId));
+    if (user) return user;
+  }
+
+  const user: User = { id: crypto.randomUUID(), email, createdAt: new Date().toISOString() };
+  // A concurrent first sign-in with the same address keeps whichever user was stored first
+  if (!(await kv().set(userEmailKey(email), user.id, { nx: true }))) {
+    return findOrCreateUser(email);
+  }
+  await kv().set(userKey(user.id), user);
+  return user;
+}
+
+// Returns a single-use sign-in token for the address
+export async function createMagicLinkToken(email: string): Promise<string> {
+  const token = createToken();
+  await kv().set(magicLinkKey(token), email, { ex: MAGIC_LINK_TTL_SECONDS });
+  return token;
+}
+
+/**
+ * Exchanges a sign-in token for a new session, creating the user on first
+ * sign-in. Tokens work once; expired or used tokens return null.
+ */
+export async function redeemMagicLinkToken(token: string): Promise<{ user: User; sessionToken: string } | null> {
+  const email = await kv().getdel<string>(magicLinkKey(token));
+  if (!email) return null;
+
+  const user = await findOrCreateUser(email);
+  const sessionToken = createToken();
+  await kv().set(sessionKey(sessionToken), user.id, { ex: SESSION_TTL_SECONDS });
+  return { user, sessionToken };
+}
+
+export async function getSessionUser(sessionToken: string): Promise<User | null> {
+  const userId = await kv().get<string>(sessionKey(sessionToken));
+  return userId ? await kv().get<User>(userKey(userId)) : null;
+}
+
+export async function deleteSession(sessionToken: string): Promise<void> {
+  await kv().del(sessionKey(sessionToken));
+}
@@ -0,0 +1,22 @@
+export {
+  createMagicLinkToken,
+  redeemMagicLinkToken,
+  deleteSession,
+  isValidEmail,
+  normalizeEmail,
+  userOwnerKey,
+  anonymousOwnerKey,
+} from "./accounts";
+export {
+  getRequestOwner,
+  setSessionCookie,
+  clearSessionCookie,
+  setOwnerCookie,
+  appBaseUrl,
+  SESSION_COOKIE,
+  OWNER_COOKIE,
+} from "./session";
+export { setPortfolioOwner, getPortfolioOwner, isPortfolioOwner, deletePortfolioOwner, claimPortfolios } from "./ownership";
+export { sendMail, MailError } from "./mailer";
+export type { MailMessage } from "./mailer";
+export type { User, RequestOwner } from "./types";
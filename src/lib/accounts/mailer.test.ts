@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MailError, sendMail } from "./mailer";
+
+const message = { to: "alex@mail.test", subject: "Sign in", text: "https://app.test/api/auth/verify?token=secret" };
+
+describe("sendMail without SMTP_HOST", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("prints the message on development servers", async () => {
+    vi.stubEnv("SMTP_HOST", "");
+    vi.stubEnv("NODE_ENV", "development");
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await sendMail(message);
+    expect(log).toHaveBeenCalledWith(expect.stringContaining("token=secret"));
+  });
+
+  it("fails everywhere else instead of logging the link", async () => {
+    vi.stubEnv("SMTP_HOST", "");
+    vi.stubEnv("NODE_ENV", "production");
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await expect(sendMail(message)).rejects.toBeInstanceOf(MailError);
+    expect(log).not.toHaveBeenCalled();
+  });
+});
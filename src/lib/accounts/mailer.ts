@@ -0,0 +1,58 @@
+import nodemailer from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+const SMTP_TIMEOUT_MS = 30000;
+
+export class MailError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MailError";
+  }
+}
+
+const createSmtpTransport = (host: string) => {
+  const port = Number(process.env.SMTP_PORT) || 587;
+  const user = process.env.SMTP_USER;
+  return nodemailer.createTransport({
+    host,
+    port,
+    // Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+    auth: user ? { user, pass: process.env.SMTP_PASSWORD } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+};
+
+/**
+ * Sends mail through SMTP_HOST. Without it, development servers print the
+ * message to the log instead, so sign-in links can be copied from there;
+ * anywhere else sending fails, because the log would expose the links.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    if (process.env.NODE_ENV !== "development") {
+      throw new MailError("SMTP_HOST environment variable is not set.");
+    }
+    console.log(`SMTP_HOST is not set, printing mail instead.\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+    return;
+  }
+
+  try {
+    await createSmtpTransport(host).sendMail({
+      from: process.env.MAIL_FROM || "FolioFlexxing <no-reply@localhost>",
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  } catch (error: any) {
+    throw new MailError(`Sending mail through ${host} failed: ${error.message}`);
+  }
+}
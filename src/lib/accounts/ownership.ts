@@ -0,0 +1,40 @@
+import { KVFactory } from "@/lib/kv";
+import { RequestOwner } from "./types";
+
+// Owners live in the key-value store, never in the publicly served metadata.json
+const kv = () => KVFactory.getDefaultStore();
+
+const portfolioOwnerKey = (portfolioId: string) => `portfolio:owner:${portfolioId}`;
+
+// Records the history key (see RequestOwner.key) of whoever created the portfolio
+export async function setPortfolioOwner(portfolioId: string, ownerKey: string): Promise<void> {
+  await kv().set(portfolioOwnerKey(portfolioId), ownerKey);
+}
+
+export async function getPortfolioOwner(portfolioId: string): Promise<string | null> {
+  return kv().get<string>(portfolioOwnerKey(portfolioId));
+}
+
+export async function isPortfolioOwner(portfolioId: string, owner: RequestOwner): Promise<boolean> {
+  return (await getPortfolioOwner(portfolioId)) === owner.key;
+}
+
+export async function deletePortfolioOwner(portfolioId: string): Promise<void> {
+  await kv().del(portfolioOwnerKey(portfolioId));
+}
+
+/**
+ * Hands the portfolios created with the request's owner cookie to the
+ * signed-in account. Portfolios owned by anyone else are left alone.
+ * Returns the ids that changed owner.
+ */
+export async function claimPortfolios(portfolioIds: string[], owner: RequestOwner): Promise<string[]> {
+  if (!owner.user) return [];
+  const claimed: string[] = [];
+  for (const id of portfolioIds) {
+    if ((await getPortfolioOwner(id)) !== owner.anonymousKey) continue;
+    await setPortfolioOwner(id, owner.key);
+    claimed.push(id);
+  }
+  return claimed;
+}
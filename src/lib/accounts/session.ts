@@ -0,0 +1,53 @@
+import type { NextRequest, NextResponse } from "next/server";
+import { SESSION_TTL_SECONDS, anonymousOwnerKey, createOwnerToken, getSessionUser, userOwnerKey } from "./accounts";
+import { RequestOwner } from "./types";
+
+export const SESSION_COOKIE = "folioflexxing_session";
+export const OWNER_COOKIE = "folioflexxing_owner";
+
+const OWNER_COOKIE_MAX_AGE_SECONDS = 400 * 24 * 60 * 60; // The longest lifetime browsers allow
+
+// Public base URL of the app; APP_URL is set when it runs behind a proxy
+export const appBaseUrl = (req: NextRequest) => process.env.APP_URL || req.nextUrl.origin;
+
+export async function getRequestOwner(req: NextRequest): Promise<RequestOwner> {
+  const ip = req.ip ?? "127.0.0.1";
+  const sessionToken = req.cookies.get(SESSION_COOKIE)?.value;
+  const user = sessionToken ? await getSessionUser(sessionToken) : null;
+  const existingOwnerToken = req.cookies.get(OWNER_COOKIE)?.value;
+  const ownerToken = existingOwnerToken || createOwnerToken();
+  const anonymousKey = anonymousOwnerKey(ownerToken);
+  return {
+    key: user ? userOwnerKey(user.id) : anonymousKey,
+    anonymousKey,
+    newOwnerToken: existingOwnerToken ? undefined : ownerToken,
+    ip,
+    user,
+  };
+}
+
+// Stores the owner token of a request that had none, so the browser keeps owning what it created
+export function setOwnerCookie(res: NextResponse, owner: RequestOwner): void {
+  if (!owner.newOwnerToken) return;
+  res.cookies.set(OWNER_COOKIE, owner.newOwnerToken, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: OWNER_COOKIE_MAX_AGE_SECONDS,
+  });
+}
+
+export function setSessionCookie(res: NextResponse, sessionToken: string): void {
+  res.cookies.set(SESSION_COOKIE, sessionToken, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+export function clearSessionCookie(res: NextResponse): void {
+  res.cookies.set(SESSION_COOKIE, "", { httpOnly: true, path: "/", maxAge: 0 });
+}
@@ -0,0 +1,14 @@
+export interface User {
+  id: string;
+  email: string;
+  createdAt: string;
+}
+
+// Who a request acts for: signed-in users own their portfolios, anonymous requests are keyed by their owner cookie
+export interface RequestOwner {
+  key: string; // History and ownership key: `user:{id}` when signed in, otherwise `anonymousKey`
+  anonymousKey: string; // Key of the browser's owner cookie, used for portfolios created before signing in
+  newOwnerToken?: string; // Set when the request had no owner cookie; setOwnerCookie() stores it
+  ip: string; // For rate limits and captchas only, never for ownership
+  user: User | null;
+}
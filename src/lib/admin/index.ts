@@ -0,0 +1,15 @@
+import crypto from "crypto";
+
+/**
+ * Checks the `Authorization: Bearer <ADMIN_API_TOKEN>` header of requests to
+ * operator-only endpoints. Those endpoints are disabled while the token is unset.
+ */
+export function isAdminRequest(req: Request): boolean {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) return false;
+
+  const provided = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(provided);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
@@ -1,18 +1,32 @@
 import Cerebras from "@cerebras/cerebras_cloud_sdk";
-import { AIProvider, AIProviderConfig } from "./types";
+import { AIProvider, AIProviderConfig, AIRequestOptions, AIResponse, AIUsage } from "./types";
+import { estimateUsage } from "./usage";
 
 export class CerebrasProvider implements AIProvider {
   private client: Cerebras;
   private modelId: string;
+  private config: AIProviderConfig;
 
   constructor(config: AIProviderConfig) {
     this.client = new Cerebras({
       apiKey: config.apiKey
     });
     this.modelId = config.modelId || "llama3.3-70b";
+    this.config = config;
   }
 
-  async generateText(prompt: string): Promise<string> {
+  async generateText(prompt: string, options?: AIRequestOptions): Promise<AIResponse> {
+    let fullResponse = "";
+    let usage: AIUsage | null = null;
+    for await (const delta of this.streamText(prompt, (streamUsage) => (usage = streamUsage), options)) {
+      fullResponse += delta;
+    }
+
+    return { text: fullResponse, usage: usage! };
+  }
+
+  async *streamText(prompt: string, onUsage?: (usage: AIUsage) => void, options?: AIRequestOptions): AsyncIterable<string> {
+    const startedAt = Date.now();
     const stream = await this.client.chat.completions.create({
       messages: [
         {
@@ -22,17 +36,35 @@ export class CerebrasProvider implements AIProvider {
       ],
       model: this.modelId,
       stream: true,
-      max_completion_tokens: 40960,
-      temperature: 0.95,
-      top_p: 0.98
-    });
+      stream_options: { include_usage: true },
+      max_completion_tokens: this.config.maxTokens ?? 40960,
+      temperature: this.config.temperature ?? 0.95,
+      top_p: this.config.topP ?? 0.98,
+      response_format: this.config.jsonMode ? { type: "json_object" } : undefined
+    }, { signal: options?.signal });
 
     let fullResponse = "";
+    let reported: { prompt_tokens?: number; completion_tokens?: number } | null = null;
     for await (const chunk of stream) {
-      fullResponse += (chunk as any).choices[0]?.delta?.content || "";
+      const delta = (chunk as any).choices[0]?.delta?.content;
+      if ((chunk as any).usage) reported = (chunk as any).usage;
+      if (delta) {
+        fullResponse += delta;
+        yield delta;
+      }
     }
 
-    return fullResponse;
+    onUsage?.(
+      reported
+        ? {
+            provider: this.getName(),
+            model: this.modelId,
+            promptTokens: reported.prompt_tokens ?? 0,
+            completionTokens: reported.completion_tokens ?? 0,
+            latencyMs: Date.now() - startedAt,
+          }
+        : estimateUsage(this.getName(), this.modelId, prompt, fullResponse, startedAt)
+    );
   }
 
   getName(): string {
@@ -0,0 +1,13 @@
+import { AIStage } from "./types";
+
+/**
+ * Works out which pipeline stage a prompt belongs to from the answer format
+ * it asks for, so resume content in the prompt does not affect the result.
+ * Prompt sets need to keep these phrases for the mock to recognise them.
+ */
+export const detectStage = (prompt: string): AIStage | undefined => {
+  if (prompt.includes("NOT_A_RESUME") && prompt.includes("VALID_RESUME")) return "classification";
+  if (/HTML markdown code block/i.test(prompt)) return "generation";
+  if (/JSON markdown code block/i.test(prompt)) return "structuring";
+  return undefined;
+};
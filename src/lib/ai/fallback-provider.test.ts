@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FallbackProvider } from "./fallback-provider";
+import { OpenAICompatibleError } from "./openai-compatible-provider";
+import { AIProvider, AIRequestOptions, AIResponse, AIUsage } from "./types";
+
+type Outcome = Error | string;
+
+// Answers each call with the next outcome, throwing it when it is an error
+class FakeProvider implements AIProvider {
+  calls = 0;
+  private name: string;
+  private outcomes: Outcome[];
+  private onCall?: () => void;
+
+  constructor(name: string, outcomes: Outcome[], onCall?: () => void) {
+    this.name = name;
+    this.outcomes = outcomes;
+    this.onCall = onCall;
+  }
+
+  async generateText(_prompt: string, _options?: AIRequestOptions): Promise<AIResponse> {
+    const outcome = this.outcomes[Math.min(this.calls++, this.outcomes.length - 1)];
+    this.onCall?.();
+    if (outcome instanceof Error) throw outcome;
+    return { text: outcome, usage: { provider: this.name, model: "fake", promptTokens: 1, completionTokens: 1, latencyMs: 0 } };
+  }
+
+  async *streamText(prompt: string, _onUsage?: (usage: AIUsage) => void, options?: AIRequestOptions): AsyncIterable<string> {
+    yield (await this.generateText(prompt, options)).text;
+  }
+
+  getName(): string {
+    return this.name;
+  }
+}
+
+const httpError = (status: number) => new OpenAICompatibleError(`Chat completion request failed with ${status}`, status);
+
+const chain = (...providers: FakeProvider[]) =>
+  new FallbackProvider(
+    providers.map((provider) => ({ provider, timeoutMs: 1000, maxRetries: 2 })),
+    { baseDelayMs: 1, maxDelayMs: 1 }
+  );
+
+describe("FallbackProvider", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([429, 500, 503])("retries a %i response", async (status) => {
+    const provider = new FakeProvider("primary", [httpError(status), "ok"]);
+
+    expect((await chain(provider).generateText("prompt")).text).toBe("ok");
+    expect(provider.calls).toBe(2);
+  });
+
+  it("retries network failures", async () => {
+    const provider = new FakeProvider("primary", [
+      new TypeError("fetch failed"),
+      Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }),
+      "ok",
+    ]);
+
+    expect((await chain(provider).generateText("prompt")).text).toBe("ok");
+    expect(provider.calls).toBe(3);
+  });
+
+  it("fails over to the next provider without retrying a 4xx response", async () => {
+    const primary = new FakeProvider("primary", [httpError(401)]);
+    const secondary = new FakeProvider("secondary", ["ok"]);
+    const provider = chain(primary, secondary);
+
+    expect((await provider.generateText("prompt")).text).toBe("ok");
+    expect(primary.calls).toBe(1);
+    expect(provider.getName()).toBe("secondary");
+  });
+
+  it("fails over once the retries are exhausted", async () => {
+    const primary = new FakeProvider("primary", [httpError(503)]);
+    const secondary = new FakeProvider("secondary", ["ok"]);
+
+    expect((await chain(primary, secondary).generateText("prompt")).text).toBe("ok");
+    expect(primary.calls).toBe(3);
+  });
+
+  it("throws the last error when every provider fails", async () => {
+    const primary = new FakeProvider("primary", [httpError(503)]);
+    const secondary = new FakeProvider("secondary", [httpError(400)]);
+
+    await expect(chain(primary, secondary).generateText("prompt")).rejects.toMatchObject({ status: 400 });
+    expect(secondary.calls).toBe(1);
+  });
+
+  it("throws programming errors without retrying or failing over", async () => {
+    const primary = new FakeProvider("primary", [new TypeError("Cannot read properties of undefined")]);
+    const secondary = new FakeProvider("secondary", ["ok"]);
+
+    await expect(chain(primary, secondary).generateText("prompt")).rejects.toThrow("Cannot read properties");
+    expect(primary.calls).toBe(1);
+    expect(secondary.calls).toBe(0);
+  });
+
+  it("never retries an AbortError", async () => {
+    const primary = new FakeProvider("primary", [new DOMException("The operation was aborted.", "AbortError"), "ok"]);
+    const secondary = new FakeProvider("secondary", ["ok"]);
+
+    await expect(chain(primary, secondary).generateText("prompt")).rejects.toMatchObject({ name: "AbortError" });
+    expect(primary.calls).toBe(1);
+    expect(secondary.calls).toBe(0);
+  });
+
+  it("stops retrying once the caller aborts", async () => {
+    const controller = new AbortController();
+    const primary = new FakeProvider("primary", [httpError(503)], () => controller.abort());
+    const secondary = new FakeProvider("secondary", ["ok"]);
+
+    await expect(chain(primary, secondary).generateText("prompt", { signal: controller.signal })).rejects.toMatchObject({ status: 503 });
+    expect(primary.calls).toBe(1);
+    expect(secondary.calls).toBe(0);
+  });
+
+  it("does not start a retry after the caller aborted during the backoff", async () => {
+    const controller = new AbortController();
+    const primary = new FakeProvider("primary", [httpError(503)], () => setTimeout(() => controller.abort(), 0));
+    const provider = new FallbackProvider([{ provider: primary, timeoutMs: 1000, maxRetries: 2 }], { baseDelayMs: 50 });
+
+    await expect(provider.generateText("prompt", { signal: controller.signal })).rejects.toMatchObject({ name: "AbortError" });
+    expect(primary.calls).toBe(1);
+  });
+
+  it("fails a stream over before its first chunk", async () => {
+    const primary = new FakeProvider("primary", [httpError(401)]);
+    const secondary = new FakeProvider("secondary", ["<html>"]);
+    const chunks: string[] = [];
+
+    for await (const chunk of chain(primary, secondary).streamText("prompt")) chunks.push(chunk);
+
+    expect(chunks).toEqual(["<html>"]);
+  });
+});
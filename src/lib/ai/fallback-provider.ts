@@ -0,0 +1,198 @@
+import { AIProvider, AIRequestOptions, AIResponse, AIUsage } from "./types";
+
+export interface FallbackProviderEntry {
+  provider: AIProvider;
+  timeoutMs: number; // Whole call for generateText, wait for each chunk for streamText
+  maxRetries: number; // Retries on retryable errors before failing over to the next provider
+}
+
+export interface FallbackProviderOptions {
+  baseDelayMs?: number; // First backoff delay, doubled on every retry
+  maxDelayMs?: number;
+}
+
+export class AIProviderTimeoutError extends Error {
+  constructor(providerName: string, timeoutMs: number) {
+    super(`${providerName} did not respond within ${timeoutMs}ms.`);
+    this.name = "AIProviderTimeoutError";
+  }
+}
+
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+
+// Socket-level failures from Node and undici, which usually succeed on a second try
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+]);
+
+const errorStatus = (error: any): number | undefined => {
+  const status = error?.status ?? error?.response?.status;
+  return typeof status === "number" ? status : undefined;
+};
+
+// fetch rejects with `TypeError: fetch failed` and SDKs wrap it, either as `cause` or in their own message
+const isNetworkError = (error: any): boolean => {
+  for (let current = error, depth = 0; current && depth < 5; current = current.cause, depth++) {
+    if (NETWORK_ERROR_CODES.has(current.code)) return true;
+    if (typeof current.message === "string" && current.message.endsWith("fetch failed")) return true;
+  }
+  return false;
+};
+
+const isAbortError = (error: any) => error?.name === "AbortError";
+
+// Timeouts, network failures and rate limit / server errors are worth retrying; everything else is not
+const isRetryableError = (error: any) => {
+  if (error instanceof AIProviderTimeoutError) return true;
+  if (isAbortError(error)) return false;
+  const status = errorStatus(error);
+  if (status !== undefined) return RETRYABLE_STATUSES.has(status);
+  return isNetworkError(error);
+};
+
+// Errors the provider answered with, such as a 401, fail over; bugs and aborts are thrown as they are
+const shouldFailOver = (error: unknown) => isRetryableError(error) || errorStatus(error) !== undefined;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Aborts the attempt when the caller gives up, in addition to its own timeouts
+const attemptController = (signal?: AbortSignal): AbortController => {
+  const controller = new AbortController();
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener("abort", () => controller.abort(signal.reason), { once: true });
+  }
+  return controller;
+};
+
+// Rejects after timeoutMs and aborts the provider call, so a slow request stops instead of running on in the background
+const withTimeout = async <T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  providerName: string,
+  controller: AbortController
+): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new AIProviderTimeoutError(providerName, timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Tries an ordered list of providers, retrying timeouts, network failures
+ * and retryable statuses with exponential backoff and failing over to the
+ * next provider when one is exhausted or rejects the request. Aborts and
+ * errors that did not come from the provider are thrown straight away. `getName()` reports the provider that served the latest call,
+ * so callers can record which provider produced each step.
+ */
+export class FallbackProvider implements AIProvider {
+  private entries: FallbackProviderEntry[];
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private servedBy?: string;
+
+  constructor(entries: FallbackProviderEntry[], options: FallbackProviderOptions = {}) {
+    if (entries.length === 0) {
+      throw new Error("FallbackProvider needs at least one provider.");
+    }
+    this.entries = entries;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 8000;
+  }
+
+  async generateText(prompt: string, options?: AIRequestOptions): Promise<AIResponse> {
+    return this.run(options?.signal, (entry) => {
+      const controller = attemptController(options?.signal);
+      return withTimeout(
+        entry.provider.generateText(prompt, { signal: controller.signal }),
+        entry.timeoutMs,
+        entry.provider.getName(),
+        controller
+      );
+    });
+  }
+
+  async *streamText(prompt: string, onUsage?: (usage: AIUsage) => void, options?: AIRequestOptions): AsyncIterable<string> {
+    // Output that has already been yielded cannot be taken back, so failover only happens before the first chunk
+    const { entry, iterator, first, controller } = await this.run(options?.signal, async (entry) => {
+      const controller = attemptController(options?.signal);
+      const iterator = entry.provider.streamText(prompt, onUsage, { signal: controller.signal })[Symbol.asyncIterator]();
+      const first = await withTimeout(iterator.next(), entry.timeoutMs, entry.provider.getName(), controller);
+      return { entry, iterator, first, controller };
+    });
+
+    let finished = first.done;
+    try {
+      if (first.done) return;
+      yield first.value;
+
+      while (true) {
+        const result = await withTimeout(iterator.next(), entry.timeoutMs, entry.provider.getName(), controller);
+        if (result.done) {
+          finished = true;
+          return;
+        }
+        yield result.value;
+      }
+    } finally {
+      // The consumer stopped early or a chunk timed out; stop the model from generating the rest
+      if (!finished) controller.abort();
+    }
+  }
+
+  getName(): string {
+    return this.servedBy ?? this.entries.map((entry) => entry.provider.getName()).join(" → ");
+  }
+
+  private async run<T>(signal: AbortSignal | undefined, call: (entry: FallbackProviderEntry) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (const entry of this.entries) {
+      const name = entry.provider.getName();
+
+      for (let attempt = 0; attempt <= entry.maxRetries; attempt++) {
+        if (attempt > 0) {
+          const delay = Math.min(this.baseDelayMs * 2 ** (attempt - 1), this.maxDelayMs);
+          await sleep(delay + Math.random() * delay * 0.2);
+        }
+
+        // Nothing is retried once the caller has given up
+        signal?.throwIfAborted();
+        try {
+          const result = await call(entry);
+          this.servedBy = name;
+          return result;
+        } catch (error) {
+          if (signal?.aborted || !shouldFailOver(error)) throw error;
+          lastError = error;
+          const retryable = isRetryableError(error);
+          console.warn(`${name} failed (attempt ${attempt + 1}/${entry.maxRetries + 1}${retryable ? "" : ", not retryable"}):`, error);
+          if (!retryable) break;
+        }
+      }
+    }
+
+    throw lastError;
+  }
+}
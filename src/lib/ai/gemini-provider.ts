@@ -1,21 +1,63 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { AIProvider, AIProviderConfig } from "./types";
+import { GoogleGenerativeAI, UsageMetadata } from "@google/generative-ai";
+import { AIProvider, AIProviderConfig, AIRequestOptions, AIResponse, AIUsage } from "./types";
+import { estimateUsage } from "./usage";
 
 export class GeminiProvider implements AIProvider {
   private client: GoogleGenerativeAI;
   private model: any;
+  private modelId: string;
 
   constructor(config: AIProviderConfig) {
     this.client = new GoogleGenerativeAI(config.apiKey);
-    this.model = this.client.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
+    this.modelId = config.modelId || "gemini-2.0-flash-exp";
+    this.model = this.client.getGenerativeModel({
+      model: this.modelId,
+      generationConfig: {
+        temperature: config.temperature,
+        topP: config.topP,
+        maxOutputTokens: config.maxTokens,
+        responseMimeType: config.jsonMode ? "application/json" : undefined,
+      },
+    });
   }
 
-  async generateText(prompt: string): Promise<string> {
-    const result = await this.model.generateContent(prompt);
-    return result.response.text();
+  async generateText(prompt: string, options?: AIRequestOptions): Promise<AIResponse> {
+    const startedAt = Date.now();
+    const result = await this.model.generateContent(prompt, { signal: options?.signal });
+    const text = result.response.text();
+    return { text, usage: this.toUsage(result.response.usageMetadata, prompt, text, startedAt) };
+  }
+
+  async *streamText(prompt: string, onUsage?: (usage: AIUsage) => void, options?: AIRequestOptions): AsyncIterable<string> {
+    const startedAt = Date.now();
+    const result = await this.model.generateContentStream(prompt, { signal: options?.signal });
+    let fullResponse = "";
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        fullResponse += delta;
+        yield delta;
+      }
+    }
+
+    const response = await result.response;
+    onUsage?.(this.toUsage(response.usageMetadata, prompt, fullResponse, startedAt));
   }
 
   getName(): string {
-    return "Gemini";
+    return `Gemini (${this.modelId})`;
+  }
+
+  private toUsage(metadata: UsageMetadata | undefined, prompt: string, text: string, startedAt: number): AIUsage {
+    if (!metadata) {
+      return estimateUsage(this.getName(), this.modelId, prompt, text, startedAt);
+    }
+    return {
+      provider: this.getName(),
+      model: this.modelId,
+      promptTokens: metadata.promptTokenCount,
+      completionTokens: metadata.candidatesTokenCount,
+      latencyMs: Date.now() - startedAt,
+    };
   }
 }
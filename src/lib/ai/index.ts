@@ -1,3 +1,24 @@
 export { AIProviderFactory } from "./provider-factory";
-export type { AIProvider, AIProviderConfig } from "./types";
-export type { ProviderType } from "./provider-factory";
+export { FallbackProvider, AIProviderTimeoutError } from "./fallback-provider";
+export { OpenAICompatibleProvider, OpenAICompatibleError } from "./openai-compatible-provider";
+export { MockProvider } from "./mock-provider";
+export { detectStage } from "./detect-stage";
+export { RecordingProvider, findRecording } from "./recording-provider";
+export { estimateTokens, estimateUsage, summarizeUsage, toStageUsage, usageCost } from "./usage";
+export type {
+  AIProvider,
+  AIProviderConfig,
+  AIProviderSet,
+  AIRequestOptions,
+  AIResponse,
+  AIStage,
+  AIUsage,
+  GenerationSettings,
+  StageUsage,
+  UsageSummary,
+} from "./types";
+export type { ProviderType, ProviderSpec, StageConfig } from "./provider-factory";
+export type { FallbackProviderEntry, FallbackProviderOptions } from "./fallback-provider";
+export type { OpenAICompatibleProviderConfig } from "./openai-compatible-provider";
+export type { MockProviderConfig } from "./mock-provider";
+export type { AIRecording } from "./recording-provider";
@@ -0,0 +1,97 @@
+import { AIStage } from "./types";
+
+const sampleResume = {
+  personalInfo: {
+    name: "Alex Morgan",
+    email: "alex.morgan@example.com",
+    phone: "+1 555 0100",
+    linkedin: "linkedin.com/in/alexmorgan",
+    github: "github.com/alexmorgan",
+  },
+  summary: "Full-stack engineer with eight years of experience building web products for small, fast-moving teams.",
+  workExperience: [
+    {
+      company: "Northwind Labs",
+      role: "Senior Software Engineer",
+      dates: "2021 - Present",
+      responsibilities: [
+        "Led the rewrite of the billing platform, cutting invoice errors by 40%",
+        "Mentored four engineers and introduced weekly design reviews",
+      ],
+    },
+    {
+      company: "Contoso",
+      role: "Software Engineer",
+      dates: "2017 - 2021",
+      responsibilities: ["Built the customer dashboard in React and TypeScript", "Maintained the public REST API"],
+    },
+  ],
+  education: [{ institution: "State University", degree: "B.Sc. Computer Science", dates: "2013 - 2017" }],
+  skills: ["TypeScript", "React", "Node.js", "PostgreSQL", "AWS"],
+  projects: [
+    {
+      name: "Trailhead",
+      description: "Open-source trail map generator used by local hiking clubs.",
+      technologies: ["Next.js", "Mapbox"],
+    },
+  ],
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+type SampleResume = typeof sampleResume;
+
+const list = (items: string[]) => `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`;
+
+// A plain page with every section, so it passes the quality check like a good model answer would
+const samplePortfolio = (resume: SampleResume) => `\`\`\`html
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(resume.personalInfo.name)} - Portfolio</title>
+</head>
+<body style="font-family: Georgia, serif; max-width: 720px; margin: 4rem auto; padding: 0 1.5rem;">
+  <header>
+    <h1>${escapeHtml(resume.personalInfo.name)}</h1>
+    <p>${escapeHtml(resume.summary)}</p>
+    <p><a href="mailto:${escapeHtml(resume.personalInfo.email)}">${escapeHtml(resume.personalInfo.email)}</a></p>
+  </header>
+  <h2>Experience</h2>
+  ${resume.workExperience.map((job) => `<h3>${escapeHtml(job.role)}, ${escapeHtml(job.company)}</h3>${list(job.responsibilities)}`).join("\n  ")}
+  <h2>Education</h2>
+  ${list(resume.education.map((entry) => `${entry.degree}, ${entry.institution}`))}
+  <h2>Projects</h2>
+  ${resume.projects.map((project) => `<h3>${escapeHtml(project.name)}</h3><p>${escapeHtml(project.description)}</p>`).join("\n  ")}
+  <h2>Skills</h2>
+  ${list(resume.skills)}
+  <footer><p>Generated by the mock AI provider.</p></footer>
+</body>
+</html>
+\`\`\``;
+
+// The prompt embeds the resume as pretty-printed JSON; its closing brace is the first one at the start of a line
+const resumeFromPrompt = (prompt: string): SampleResume => {
+  const start = prompt.indexOf('{\n  "personalInfo"');
+  const end = prompt.indexOf("\n}", start);
+  if (start === -1 || end === -1) return sampleResume;
+  try {
+    return { ...sampleResume, ...JSON.parse(prompt.slice(start, end + 2)) };
+  } catch {
+    return sampleResume;
+  }
+};
+
+// Canned responses per stage; the generation fixture renders the resume JSON found in the prompt
+export const defaultMockResponse = (stage: AIStage, prompt: string): string => {
+  switch (stage) {
+    case "classification":
+      return JSON.stringify({ label: "VALID_RESUME", confidence: 0.98, reason: "Mock classification." });
+    case "structuring":
+      return `\`\`\`json\n${JSON.stringify(sampleResume, null, 2)}\n\`\`\``;
+    case "generation":
+      return samplePortfolio(resumeFromPrompt(prompt));
+  }
+};
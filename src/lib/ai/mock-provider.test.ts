@@ -0,0 +1,112 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MockProvider } from "./mock-provider";
+import { RecordingProvider, findRecording } from "./recording-provider";
+import { AIProvider, AIResponse, AIUsage } from "./types";
+
+const classificationPrompt = "Answer NOT_A_RESUME or VALID_RESUME for this document.";
+const structuringPrompt = "Return the resume as JSON in a JSON markdown code block.";
+const generationPrompt = (seed: number) => `Seed ${seed}. Return the page in an HTML markdown code block.`;
+
+const echoUsage: AIUsage = { provider: "Echo", model: "echo", promptTokens: 1, completionTokens: 2, latencyMs: 0 };
+
+// Stands in for a real model: answers with the prompt it was given
+class EchoProvider implements AIProvider {
+  async generateText(prompt: string): Promise<AIResponse> {
+    return { text: `echo: ${prompt}`, usage: echoUsage };
+  }
+
+  async *streamText(prompt: string, onUsage?: (usage: AIUsage) => void): AsyncIterable<string> {
+    yield "echo: ";
+    yield prompt;
+    onUsage?.(echoUsage);
+  }
+
+  getName(): string {
+    return "Echo";
+  }
+}
+
+const collect = async (stream: AsyncIterable<string>) => {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+};
+
+describe("MockProvider", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "mock-provider-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("answers each stage with the built-in responses", async () => {
+    const provider = new MockProvider();
+
+    expect(JSON.parse((await provider.generateText(classificationPrompt)).text).label).toBe("VALID_RESUME");
+    expect((await provider.generateText(structuringPrompt)).text).toMatch(/^```json\n[\s\S]*"Alex Morgan"[\s\S]*\n```$/);
+    expect((await provider.generateText(generationPrompt(1))).text).toContain("<!DOCTYPE html>");
+  });
+
+  it("estimates usage for each response", async () => {
+    const { usage } = await new MockProvider().generateText(classificationPrompt);
+
+    expect(usage).toMatchObject({ provider: "Mock", model: "mock", estimated: true });
+    expect(usage.promptTokens).toBeGreaterThan(0);
+    expect(usage.completionTokens).toBeGreaterThan(0);
+  });
+
+  it("prefers fixture files over the built-in responses", async () => {
+    await fs.writeFile(path.join(dir, "structuring.json"), '```json\n{"summary":"From the fixture"}\n```');
+    const provider = new MockProvider({ fixturesDir: dir });
+
+    expect((await provider.generateText(structuringPrompt)).text).toContain("From the fixture");
+    expect(JSON.parse((await provider.generateText(classificationPrompt)).text).label).toBe("VALID_RESUME");
+  });
+
+  it("streams the response in chunks and reports usage at the end", async () => {
+    const usages: AIUsage[] = [];
+    const chunks = await collect(new MockProvider().streamText(generationPrompt(1), (usage) => usages.push(usage)));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join("")).toBe((await new MockProvider().generateText(generationPrompt(1))).text);
+    expect(usages).toHaveLength(1);
+  });
+
+  it("rejects prompts it cannot assign to a stage", async () => {
+    await expect(new MockProvider().generateText("Hello")).rejects.toThrow(/pipeline stage/);
+  });
+
+  it("honours an aborted signal", async () => {
+    const controller = new AbortController();
+    controller.abort(new Error("cancelled"));
+
+    await expect(new MockProvider().generateText(classificationPrompt, { signal: controller.signal })).rejects.toThrow("cancelled");
+  });
+
+  it("replays what a RecordingProvider recorded", async () => {
+    const recorder = new RecordingProvider(new EchoProvider(), dir);
+    await recorder.generateText(classificationPrompt);
+    expect(await collect(recorder.streamText(generationPrompt(1)))).toEqual(["echo: ", generationPrompt(1)]);
+
+    const replay = new MockProvider({ replayDir: dir });
+    expect(replay.getName()).toBe("Mock (replay)");
+    expect((await replay.generateText(classificationPrompt)).text).toBe(`echo: ${classificationPrompt}`);
+    // Generation prompts differ per run, so the latest generation recording is used
+    expect((await replay.generateText(generationPrompt(2))).text).toBe(`echo: ${generationPrompt(1)}`);
+    // Stages without a recording fall back to the built-in responses
+    expect((await replay.generateText(structuringPrompt)).text).toContain("Alex Morgan");
+  });
+});
+
+describe("findRecording", () => {
+  it("returns nothing for a missing directory", async () => {
+    expect(await findRecording(path.join(os.tmpdir(), "no-such-recordings"), "generation", generationPrompt(1))).toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+import fs from "fs/promises";
+import path from "path";
+import { AIProvider, AIRequestOptions, AIResponse, AIStage, AIUsage } from "./types";
+import { estimateUsage } from "./usage";
+import { defaultMockResponse } from "./mock-fixtures";
+import { detectStage } from "./detect-stage";
+import { findRecording } from "./recording-provider";
+
+export interface MockProviderConfig {
+  fixturesDir?: string; // Overrides per stage: classification.txt, structuring.json, generation.html
+  replayDir?: string; // Recordings captured by RecordingProvider, replayed before falling back to fixtures
+}
+
+// Fixture files checked for each stage, in order
+const FIXTURE_FILES: Record<AIStage, string[]> = {
+  classification: ["classification.txt"],
+  structuring: ["structuring.json", "structuring.txt"],
+  generation: ["generation.html", "generation.txt"],
+};
+
+const STREAM_CHUNK_SIZE = 64;
+
+const readFixture = async (fixturesDir: string, stage: AIStage): Promise<string | undefined> => {
+  for (const fileName of FIXTURE_FILES[stage]) {
+    try {
+      return await fs.readFile(path.join(fixturesDir, fileName), "utf-8");
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Deterministic provider for offline development and CI. Answers each stage
+ * from replayed recordings, fixture files or built-in canned responses,
+ * without any network access.
+ */
+export class MockProvider implements AIProvider {
+  private config: MockProviderConfig;
+
+  constructor(config: MockProviderConfig = {}) {
+    this.config = config;
+  }
+
+  async generateText(prompt: string, options?: AIRequestOptions): Promise<AIResponse> {
+    const startedAt = Date.now();
+    options?.signal?.throwIfAborted();
+    const text = await this.respond(prompt);
+    return { text, usage: estimateUsage(this.getName(), "mock", prompt, text, startedAt) };
+  }
+
+  async *streamText(prompt: string, onUsage?: (usage: AIUsage) => void, options?: AIRequestOptions): AsyncIterable<string> {
+    const { text, usage } = await this.generateText(prompt, options);
+    for (let offset = 0; offset < text.length; offset += STREAM_CHUNK_SIZE) {
+      options?.signal?.throwIfAborted();
+      yield text.slice(offset, offset + STREAM_CHUNK_SIZE);
+    }
+    onUsage?.(usage);
+  }
+
+  getName(): string {
+    return this.config.replayDir ? "Mock (replay)" : "Mock";
+  }
+
+  private async respond(prompt: string): Promise<string> {
+    const stage = detectStage(prompt);
+    if (!stage) {
+      throw new Error("The mock AI provider could not tell which pipeline stage the prompt belongs to.");
+    }
+
+    if (this.config.replayDir) {
+      const recording = await findRecording(this.config.replayDir, stage, prompt);
+      if (recording) return recording.response;
+      console.warn(`No ${stage} recording found in ${this.config.replayDir}, using fixtures.`);
+    }
+
+    if (this.config.fixturesDir) {
+      const fixture = await readFixture(this.config.fixturesDir, stage);
+      if (fixture !== undefined) return fixture;
+    }
+
+    return defaultMockResponse(stage, prompt);
+  }
+}
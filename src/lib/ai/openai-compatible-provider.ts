@@ -0,0 +1,133 @@
+import { AIProvider, AIProviderConfig, AIRequestOptions, AIResponse, AIUsage } from "./types";
+import { estimateUsage } from "./usage";
+
+interface ReportedUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+export interface OpenAICompatibleProviderConfig extends AIProviderConfig {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1 for Ollama
+  modelId: string;
+}
+
+// Carries the HTTP status so FallbackProvider can tell retryable failures apart
+export class OpenAICompatibleError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "OpenAICompatibleError";
+    this.status = status;
+  }
+}
+
+/**
+ * Talks to any server implementing the OpenAI chat-completions API: OpenAI,
+ * vLLM, Ollama, LM Studio, llama.cpp server or a compatible gateway.
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  private config: OpenAICompatibleProviderConfig;
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    this.config = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, "") };
+  }
+
+  async generateText(prompt: string, options?: AIRequestOptions): Promise<AIResponse> {
+    const startedAt = Date.now();
+    const response = await this.request(prompt, false, options?.signal);
+    const body = await response.json();
+    const text = body.choices?.[0]?.message?.content ?? "";
+    return { text, usage: this.toUsage(body.usage, prompt, text, startedAt) };
+  }
+
+  async *streamText(prompt: string, onUsage?: (usage: AIUsage) => void, options?: AIRequestOptions): AsyncIterable<string> {
+    const startedAt = Date.now();
+    const response = await this.request(prompt, true, options?.signal);
+    if (!response.body) {
+      throw new OpenAICompatibleError("The server returned an empty stream.", 502);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let fullResponse = "";
+    let reported: ReportedUsage | undefined;
+
+    reading: while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        const data = line.match(/^data: ?(.*)$/)?.[1]?.trim();
+        if (!data) continue;
+        if (data === "[DONE]") break reading;
+
+        const chunk = JSON.parse(data);
+        if (chunk.usage) reported = chunk.usage;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          fullResponse += delta;
+          yield delta;
+        }
+      }
+    }
+
+    onUsage?.(this.toUsage(reported, prompt, fullResponse, startedAt));
+  }
+
+  getName(): string {
+    return `OpenAI-compatible (${this.config.modelId} @ ${new URL(this.config.baseUrl).host})`;
+  }
+
+  private toUsage(reported: ReportedUsage | undefined, prompt: string, text: string, startedAt: number): AIUsage {
+    if (!reported) {
+      return estimateUsage(this.getName(), this.config.modelId, prompt, text, startedAt);
+    }
+    return {
+      provider: this.getName(),
+      model: this.config.modelId,
+      promptTokens: reported.prompt_tokens ?? 0,
+      completionTokens: reported.completion_tokens ?? 0,
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+
+  private async request(prompt: string, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const { baseUrl, apiKey, modelId, temperature, topP, maxTokens, jsonMode } = this.config;
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    // Local servers usually run without authentication
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: modelId,
+        messages: [{ role: "user", content: prompt }],
+        stream,
+        // Servers that support it send token counts in a final chunk
+        stream_options: stream ? { include_usage: true } : undefined,
+        temperature,
+        top_p: topP,
+        max_tokens: maxTokens,
+        response_format: jsonMode ? { type: "json_object" } : undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new OpenAICompatibleError(
+        `Chat completion request failed with ${response.status}: ${detail.slice(0, 500)}`,
+        response.status
+      );
+    }
+    return response;
+  }
+}
@@ -1,18 +1,71 @@
-import { AIProvider } from "./types";
+import { AIProvider, AIProviderSet, AIStage, GenerationSettings } from "./types";
 import { GeminiProvider } from "./gemini-provider";
 import { CerebrasProvider } from "./cerebras-provider";
+import { OpenAICompatibleProvider } from "./openai-compatible-provider";
+import { MockProvider } from "./mock-provider";
+import { RecordingProvider } from "./recording-provider";
+import { FallbackProvider, FallbackProviderEntry } from "./fallback-provider";
 
-export type ProviderType = "gemini" | "cerebras";
+export type ProviderType = "gemini" | "cerebras" | "openai" | "mock";
+
+// One link of a fallback chain, written as "type" or "type:model" (e.g. "cerebras:llama3.1-8b")
+export interface ProviderSpec {
+  type: ProviderType;
+  modelId?: string;
+}
+
+export interface StageConfig extends GenerationSettings {
+  providers: ProviderSpec[];
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 2;
+
+// The classifier answers with a single token and structuring should follow the resume closely;
+// generation keeps each provider's creative defaults
+const STAGE_DEFAULTS: Record<AIStage, GenerationSettings> = {
+  classification: { temperature: 0, maxTokens: 1024 },
+  structuring: { temperature: 0.2 },
+  generation: {},
+};
+
+const optionalNumber = (value: string | undefined) => (value ? Number(value) : undefined);
+
+const optionalBoolean = (value: string | undefined) => (value ? value === "true" : undefined);
+
+// Reads a numeric setting, preferring the provider-specific variable (e.g. GEMINI_TIMEOUT_MS)
+const numberFromEnv = (providerType: ProviderType, name: string, fallback: number) => {
+  const value = process.env[`${providerType.toUpperCase()}_${name}`] ?? process.env[`AI_${name}`];
+  const parsed = Number(value);
+  return value !== undefined && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+// Keeps unset stage settings from overriding values configured for the provider itself
+const withoutUndefined = <T extends object>(value: T): Partial<T> =>
+  Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+
+// Only the first colon separates the model, since model ids such as "llama3.1:8b" contain colons
+const parseProviderSpecs = (value: string): ProviderSpec[] =>
+  value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      if (separator === -1) return { type: entry as ProviderType };
+      return { type: entry.slice(0, separator) as ProviderType, modelId: entry.slice(separator + 1) };
+    });
 
 export class AIProviderFactory {
-  static createProvider(providerType: ProviderType): AIProvider {
+  static createProvider(providerType: ProviderType, overrides: GenerationSettings & { modelId?: string } = {}): AIProvider {
     switch (providerType) {
       case "gemini": {
         const apiKey = process.env.GEMINI_API_KEY;
         if (!apiKey) {
           throw new Error("GEMINI_API_KEY environment variable is not set.");
         }
-        return new GeminiProvider({ apiKey });
+        const modelId = process.env.GEMINI_MODEL_ID;
+        return new GeminiProvider({ apiKey, modelId, ...overrides });
       }
       case "cerebras": {
         const apiKey = process.env.CEREBRAS_API_KEY;
@@ -20,15 +73,90 @@ export class AIProviderFactory {
           throw new Error("CEREBRAS_API_KEY environment variable is not set.");
         }
         const modelId = process.env.CEREBRAS_MODEL_ID;
-        return new CerebrasProvider({ apiKey, modelId });
+        return new CerebrasProvider({ apiKey, modelId, ...overrides });
+      }
+      case "openai": {
+        const modelId = overrides.modelId || process.env.OPENAI_MODEL_ID;
+        if (!modelId) {
+          throw new Error("OPENAI_MODEL_ID environment variable is not set.");
+        }
+        return new OpenAICompatibleProvider({
+          baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+          apiKey: process.env.OPENAI_API_KEY || "",
+          temperature: optionalNumber(process.env.OPENAI_TEMPERATURE),
+          topP: optionalNumber(process.env.OPENAI_TOP_P),
+          maxTokens: optionalNumber(process.env.OPENAI_MAX_TOKENS),
+          ...overrides,
+          modelId,
+        });
       }
+      case "mock":
+        return new MockProvider({
+          fixturesDir: process.env.MOCK_AI_FIXTURES_DIR,
+          replayDir: process.env.MOCK_AI_REPLAY_DIR,
+        });
       default:
         throw new Error(`Unknown AI provider: ${providerType}`);
     }
   }
 
+  /**
+   * Wraps the given providers, in order of preference, with timeouts,
+   * retries and failover. Timeouts and retry counts come from
+   * `{PROVIDER}_TIMEOUT_MS` / `{PROVIDER}_MAX_RETRIES`, falling back to
+   * `AI_TIMEOUT_MS` / `AI_MAX_RETRIES`.
+   */
+  static createFallbackProvider(providers: ProviderSpec[], settings: GenerationSettings = {}): AIProvider {
+    const entries: FallbackProviderEntry[] = providers.map(({ type, modelId }) => ({
+      provider: this.createProvider(type, withoutUndefined({ ...settings, modelId })),
+      timeoutMs: numberFromEnv(type, "TIMEOUT_MS", DEFAULT_TIMEOUT_MS),
+      maxRetries: numberFromEnv(type, "MAX_RETRIES", DEFAULT_MAX_RETRIES),
+    }));
+
+    const baseDelayMs = Number(process.env.AI_RETRY_BASE_DELAY_MS) || undefined;
+    return new FallbackProvider(entries, { baseDelayMs });
+  }
+
+  /**
+   * Reads the configuration of one pipeline stage. `AI_{STAGE}_PROVIDER`
+   * overrides the `AI_PROVIDER` chain, and `AI_{STAGE}_TEMPERATURE`,
+   * `_TOP_P`, `_MAX_TOKENS` and `_JSON_MODE` override the stage defaults.
+   */
+  static getStageConfig(stage: AIStage): StageConfig {
+    const prefix = `AI_${stage.toUpperCase()}`;
+    const defaults = STAGE_DEFAULTS[stage];
+
+    return {
+      providers: parseProviderSpecs(process.env[`${prefix}_PROVIDER`] || process.env.AI_PROVIDER || "cerebras"),
+      temperature: optionalNumber(process.env[`${prefix}_TEMPERATURE`]) ?? defaults.temperature,
+      topP: optionalNumber(process.env[`${prefix}_TOP_P`]) ?? defaults.topP,
+      maxTokens: optionalNumber(process.env[`${prefix}_MAX_TOKENS`]) ?? defaults.maxTokens,
+      jsonMode: optionalBoolean(process.env[`${prefix}_JSON_MODE`]) ?? defaults.jsonMode,
+    };
+  }
+
+  static getStageProvider(stage: AIStage): AIProvider {
+    const { providers, ...settings } = this.getStageConfig(stage);
+    return this.withRecording(this.createFallbackProvider(providers, settings));
+  }
+
+  static getStageProviders(): AIProviderSet {
+    return {
+      classification: this.getStageProvider("classification"),
+      structuring: this.getStageProvider("structuring"),
+      generation: this.getStageProvider("generation"),
+    };
+  }
+
+  // AI_PROVIDER accepts a comma-separated fallback chain, e.g. "cerebras,gemini"
   static getDefaultProvider(): AIProvider {
-    const providerType = (process.env.AI_PROVIDER || "cerebras") as ProviderType;
-    return this.createProvider(providerType);
+    const providers = parseProviderSpecs(process.env.AI_PROVIDER || "cerebras");
+    return this.withRecording(this.createFallbackProvider(providers));
+  }
+
+  // AI_RECORD_DIR captures real responses for later replay with AI_PROVIDER=mock
+  private static withRecording(provider: AIProvider): AIProvider {
+    const recordDir = process.env.AI_RECORD_DIR;
+    return recordDir ? new RecordingProvider(provider, recordDir) : provider;
   }
 }
@@ -0,0 +1,103 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { AIProvider, AIRequestOptions, AIResponse, AIStage, AIUsage } from "./types";
+import { detectStage } from "./detect-stage";
+
+export interface AIRecording {
+  stage: AIStage | "unknown";
+  provider: string;
+  recordedAt: string;
+  prompt: string;
+  response: string;
+  usage?: AIUsage;
+}
+
+const promptHash = (prompt: string) => crypto.createHash("sha256").update(prompt).digest("hex").slice(0, 16);
+
+const recordingFileName = (stage: AIRecording["stage"], prompt: string) => `${stage}-${promptHash(prompt)}.json`;
+
+/**
+ * Looks up the recording for a prompt. Generation prompts contain a random
+ * seed and image URLs, so when there is no exact match the most recent
+ * recording of the same stage is used instead.
+ */
+export async function findRecording(dir: string, stage: AIStage, prompt: string): Promise<AIRecording | undefined> {
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(dir);
+  } catch (error: any) {
+    if (error.code === "ENOENT") return undefined;
+    throw error;
+  }
+
+  const exact = recordingFileName(stage, prompt);
+  if (fileNames.includes(exact)) {
+    return JSON.parse(await fs.readFile(path.join(dir, exact), "utf-8"));
+  }
+
+  const candidates = await Promise.all(
+    fileNames
+      .filter((fileName) => fileName.startsWith(`${stage}-`) && fileName.endsWith(".json"))
+      .map(async (fileName) => JSON.parse(await fs.readFile(path.join(dir, fileName), "utf-8")) as AIRecording)
+  );
+  return candidates.sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))[0];
+}
+
+/**
+ * Passes calls through to a real provider and saves every prompt and
+ * response to disk, so the MockProvider can replay them later.
+ */
+export class RecordingProvider implements AIProvider {
+  private provider: AIProvider;
+  private dir: string;
+
+  constructor(provider: AIProvider, dir: string) {
+    this.provider = provider;
+    this.dir = dir;
+  }
+
+  async generateText(prompt: string, options?: AIRequestOptions): Promise<AIResponse> {
+    const response = await this.provider.generateText(prompt, options);
+    await this.record(prompt, response.text, response.usage);
+    return response;
+  }
+
+  async *streamText(prompt: string, onUsage?: (usage: AIUsage) => void, options?: AIRequestOptions): AsyncIterable<string> {
+    let response = "";
+    let usage: AIUsage | undefined;
+    const stream = this.provider.streamText(prompt, (streamUsage) => {
+      usage = streamUsage;
+      onUsage?.(streamUsage);
+    }, options);
+    for await (const delta of stream) {
+      response += delta;
+      yield delta;
+    }
+    await this.record(prompt, response, usage);
+  }
+
+  getName(): string {
+    return this.provider.getName();
+  }
+
+  private async record(prompt: string, response: string, usage?: AIUsage): Promise<void> {
+    const stage = detectStage(prompt) ?? "unknown";
+    const recording: AIRecording = {
+      stage,
+      provider: this.provider.getName(),
+      recordedAt: new Date().toISOString(),
+      prompt,
+      response,
+      usage,
+    };
+
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(path.join(this.dir, recordingFileName(stage, prompt)), JSON.stringify(recording, null, 2));
+    } catch (error) {
+      // Recording is a development aid; never fail the request because of it
+      console.warn("Failed to save AI recording:", error);
+    }
+  }
+}
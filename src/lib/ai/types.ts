@@ -1,9 +1,56 @@
 export interface AIProvider {
-  generateText(prompt: string): Promise<string>;
-  getName(): string;
+  generateText(prompt: string, options?: AIRequestOptions): Promise<AIResponse>;
+  // Yields text deltas as the model produces them; onUsage is called once the stream has finished
+  streamText(prompt: string, onUsage?: (usage: AIUsage) => void, options?: AIRequestOptions): AsyncIterable<string>;
+  getName(): string; // Composite providers report the provider that served the latest call
 }
 
-export interface AIProviderConfig {
+export interface AIRequestOptions {
+  signal?: AbortSignal; // Cancels the request to the model, e.g. when FallbackProvider times it out
+}
+
+export interface AIUsage {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  estimated?: boolean; // Token counts approximated from text length because the provider reported none
+}
+
+export interface AIResponse {
+  text: string;
+  usage: AIUsage;
+}
+
+// Sampling and output settings; unset values fall back to the provider's defaults
+export interface GenerationSettings {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  jsonMode?: boolean; // Ask the provider for a JSON object instead of free text
+}
+
+export interface AIProviderConfig extends GenerationSettings {
   apiKey: string;
   modelId?: string;
 }
+
+// Pipeline steps that call a model
+export type AIStage = "classification" | "structuring" | "generation";
+
+export type AIProviderSet = Record<AIStage, AIProvider>;
+
+export interface StageUsage extends AIUsage {
+  stage: AIStage;
+  costUsd?: number; // Set when AI_PRICING has a price for the model
+}
+
+// Usage of every model call made for one request
+export interface UsageSummary {
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  costUsd?: number;
+  calls: StageUsage[];
+}
@@ -0,0 +1,62 @@
+import { AIStage, AIUsage, StageUsage, UsageSummary } from "./types";
+
+interface ModelPricing {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million completion tokens
+}
+
+// Rough estimate for providers that do not report token counts
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const estimateUsage = (
+  provider: string,
+  model: string,
+  prompt: string,
+  response: string,
+  startedAt: number
+): AIUsage => ({
+  provider,
+  model,
+  promptTokens: estimateTokens(prompt),
+  completionTokens: estimateTokens(response),
+  latencyMs: Date.now() - startedAt,
+  estimated: true,
+});
+
+// AI_PRICING maps model ids to prices, e.g. {"llama3.3-70b": {"input": 0.85, "output": 1.2}}
+const loadPricing = (): Record<string, ModelPricing> => {
+  if (!process.env.AI_PRICING) return {};
+  try {
+    return JSON.parse(process.env.AI_PRICING);
+  } catch (error) {
+    console.warn("AI_PRICING is not valid JSON, costs will not be reported:", error);
+    return {};
+  }
+};
+
+const pricing = loadPricing();
+
+export const usageCost = (usage: AIUsage): number | undefined => {
+  const price = pricing[usage.model];
+  if (!price) return undefined;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+};
+
+export const toStageUsage = (stage: AIStage, usage: AIUsage): StageUsage => {
+  const costUsd = usageCost(usage);
+  return costUsd === undefined ? { stage, ...usage } : { stage, ...usage, costUsd };
+};
+
+// Totals the calls of one request; cost is only reported when every call could be priced
+export const summarizeUsage = (calls: StageUsage[]): UsageSummary => {
+  const summary: UsageSummary = {
+    promptTokens: calls.reduce((total, call) => total + call.promptTokens, 0),
+    completionTokens: calls.reduce((total, call) => total + call.completionTokens, 0),
+    latencyMs: calls.reduce((total, call) => total + call.latencyMs, 0),
+    calls,
+  };
+  if (calls.length > 0 && calls.every((call) => call.costUsd !== undefined)) {
+    summary.costUsd = calls.reduce((total, call) => total + (call.costUsd ?? 0), 0);
+  }
+  return summary;
+};
@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { CaptchaFactory } from "./captcha-factory";
+import { getCaptchaType } from "./config";
+
+describe("CaptchaFactory", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("runs without a captcha outside production when nothing is configured", () => {
+    vi.stubEnv("NEXT_PUBLIC_CAPTCHA_PROVIDER", "");
+    vi.stubEnv("NEXT_PUBLIC_RECAPTCHA_SITE_KEY", "");
+    vi.stubEnv("NODE_ENV", "development");
+
+    expect(CaptchaFactory.getDefaultVerifier().getName()).toBe("Disabled");
+  });
+
+  it("fails in production unless the captcha is disabled explicitly", () => {
+    vi.stubEnv("NEXT_PUBLIC_CAPTCHA_PROVIDER", "");
+    vi.stubEnv("NEXT_PUBLIC_RECAPTCHA_SITE_KEY", "");
+    vi.stubEnv("NODE_ENV", "production");
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(() => CaptchaFactory.getDefaultVerifier()).toThrow("NEXT_PUBLIC_CAPTCHA_PROVIDER");
+
+    vi.stubEnv("NEXT_PUBLIC_CAPTCHA_PROVIDER", "disabled");
+    expect(CaptchaFactory.getDefaultVerifier().getName()).toBe("Disabled");
+  });
+
+  it("rejects unknown providers", () => {
+    vi.stubEnv("NEXT_PUBLIC_CAPTCHA_PROVIDER", "recapcha");
+
+    expect(() => getCaptchaType()).toThrow("Unknown captcha provider: recapcha");
+  });
+});
@@ -0,0 +1,57 @@
+import { CaptchaType, CaptchaVerifier } from "./types";
+import { SiteverifyCaptchaVerifier } from "./siteverify-verifier";
+import { getCaptchaType } from "./config";
+
+// Accepts every request; for local development and deployments protected some other way
+class DisabledCaptchaVerifier implements CaptchaVerifier {
+  async verify(): Promise<boolean> {
+    return true;
+  }
+
+  getName(): string {
+    return "Disabled";
+  }
+}
+
+const siteverifyEndpoints: Record<Exclude<CaptchaType, "disabled">, { name: string; endpoint: string }> = {
+  recaptcha: { name: "reCAPTCHA", endpoint: "https://www.google.com/recaptcha/api/siteverify" },
+  hcaptcha: { name: "hCaptcha", endpoint: "https://api.hcaptcha.com/siteverify" },
+  turnstile: { name: "Turnstile", endpoint: "https://challenges.cloudflare.com/turnstile/v0/siteverify" },
+};
+
+export class CaptchaFactory {
+  static createVerifier(captchaType?: CaptchaType): CaptchaVerifier {
+    const type = captchaType || getCaptchaType();
+
+    switch (type) {
+      case "recaptcha":
+      case "hcaptcha":
+      case "turnstile": {
+        // RECAPTCHA_SECRET_KEY is still read so existing reCAPTCHA setups keep working
+        const secret = process.env.CAPTCHA_SECRET_KEY || (type === "recaptcha" ? process.env.RECAPTCHA_SECRET_KEY : undefined);
+        if (!secret) {
+          throw new Error("CAPTCHA_SECRET_KEY environment variable is not set.");
+        }
+        const { name, endpoint } = siteverifyEndpoints[type];
+        return new SiteverifyCaptchaVerifier(name, endpoint, secret);
+      }
+
+      case "disabled":
+        // Production only skips the captcha when asked to, not because nothing was configured
+        if (!captchaType && process.env.NODE_ENV === "production" && process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER !== "disabled") {
+          throw new Error('NEXT_PUBLIC_CAPTCHA_PROVIDER environment variable is not set. Set it to "disabled" to run without a captcha.');
+        }
+        if (process.env.NODE_ENV === "production") {
+          console.warn("Captcha verification is disabled; set NEXT_PUBLIC_CAPTCHA_PROVIDER to protect generation.");
+        }
+        return new DisabledCaptchaVerifier();
+
+      default:
+        throw new Error(`Unknown captcha provider: ${type}`);
+    }
+  }
+
+  static getDefaultVerifier(): CaptchaVerifier {
+    return this.createVerifier();
+  }
+}
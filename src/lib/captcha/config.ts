@@ -0,0 +1,20 @@
+import { CaptchaType } from "./types";
+
+const captchaTypes: CaptchaType[] = ["recaptcha", "hcaptcha", "turnstile", "disabled"];
+
+export const isCaptchaType = (value: string): value is CaptchaType => captchaTypes.includes(value as CaptchaType);
+
+/**
+ * The captcha shown in the form and checked by the server. Public so the
+ * browser renders the matching widget; without NEXT_PUBLIC_CAPTCHA_PROVIDER,
+ * reCAPTCHA is used when its site key is set and the captcha is off otherwise.
+ */
+export const getCaptchaType = (): CaptchaType => {
+  const configured = process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER;
+  if (!configured) return process.env.NEXT_PUBLIC_RECAPTCHA_SITE_KEY ? "recaptcha" : "disabled";
+  if (!isCaptchaType(configured)) throw new Error(`Unknown captcha provider: ${configured}`);
+  return configured;
+};
+
+export const getCaptchaSiteKey = (): string =>
+  process.env.NEXT_PUBLIC_CAPTCHA_SITE_KEY || process.env.NEXT_PUBLIC_RECAPTCHA_SITE_KEY || "";
@@ -0,0 +1,4 @@
+export { CaptchaFactory } from "./captcha-factory";
+export { SiteverifyCaptchaVerifier } from "./siteverify-verifier";
+export { getCaptchaType, getCaptchaSiteKey, isCaptchaType } from "./config";
+export type { CaptchaType, CaptchaVerifier } from "./types";
@@ -0,0 +1,49 @@
+import { CaptchaVerifier } from "./types";
+
+interface SiteverifyResponse {
+  success: boolean;
+  "error-codes"?: string[];
+}
+
+/**
+ * reCAPTCHA, hCaptcha and Turnstile share the same server-side check: the
+ * secret and the widget token are posted as a form to a siteverify
+ * endpoint, which answers with `success`.
+ */
+export class SiteverifyCaptchaVerifier implements CaptchaVerifier {
+  private name: string;
+  private endpoint: string;
+  private secret: string;
+
+  constructor(name: string, endpoint: string, secret: string) {
+    this.name = name;
+    this.endpoint = endpoint;
+    this.secret = secret;
+  }
+
+  async verify(token: string, remoteIp?: string): Promise<boolean> {
+    if (!token) return false;
+
+    const body = new URLSearchParams({ secret: this.secret, response: token });
+    if (remoteIp) body.set("remoteip", remoteIp);
+
+    const response = await fetch(this.endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(`${this.name} verification failed with ${response.status}.`);
+    }
+
+    const result: SiteverifyResponse = await response.json();
+    if (!result.success && result["error-codes"]?.length) {
+      console.warn(`${this.name} rejected the token: ${result["error-codes"].join(", ")}`);
+    }
+    return result.success === true;
+  }
+
+  getName(): string {
+    return this.name;
+  }
+}
@@ -0,0 +1,6 @@
+export type CaptchaType = "recaptcha" | "hcaptcha" | "turnstile" | "disabled";
+
+export interface CaptchaVerifier {
+  verify(token: string, remoteIp?: string): Promise<boolean>;
+  getName(): string;
+}
@@ -0,0 +1,12 @@
+import mammoth from "mammoth";
+import { documentFormats } from "./formats";
+import { DocumentExtractor, ExtractedDocument } from "./types";
+
+export class DocxExtractor implements DocumentExtractor {
+  readonly format = documentFormats.docx;
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const result = await mammoth.extractRawText({ buffer });
+    return { text: result.value };
+  }
+}
@@ -0,0 +1,7 @@
+// Thrown when an uploaded file is malformed or does not match its declared format
+export class ExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExtractionError";
+  }
+}
@@ -0,0 +1,29 @@
+import { DocumentExtractor } from "./types";
+import { PdfExtractor } from "./pdf-extractor";
+import { DocxExtractor } from "./docx-extractor";
+import { MarkdownExtractor } from "./markdown-extractor";
+import { TextExtractor } from "./text-extractor";
+import { JsonResumeExtractor } from "./json-resume-extractor";
+
+const extractors: DocumentExtractor[] = [
+  new PdfExtractor(),
+  new DocxExtractor(),
+  new MarkdownExtractor(),
+  new TextExtractor(),
+  new JsonResumeExtractor(),
+];
+
+export class ExtractorFactory {
+  /**
+   * Picks an extractor by file extension, falling back to the MIME type
+   * (browsers report an empty or generic type for .md and .json files).
+   */
+  static getExtractor(fileName: string, mimeType?: string): DocumentExtractor | null {
+    const extension = fileName.includes(".") ? `.${fileName.split(".").pop()!.toLowerCase()}` : "";
+    const byExtension = extractors.find((extractor) => extractor.format.extensions.includes(extension));
+    if (byExtension) return byExtension;
+
+    const type = mimeType?.split(";")[0].trim().toLowerCase();
+    return extractors.find((extractor) => !!type && extractor.format.mimeTypes.includes(type)) || null;
+  }
+}
@@ -0,0 +1,40 @@
+// Client-safe description of the upload formats; the extractors themselves are server-only
+export interface DocumentFormat {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+}
+
+export const documentFormats = {
+  pdf: {
+    label: "PDF",
+    extensions: [".pdf"],
+    mimeTypes: ["application/pdf"],
+  },
+  docx: {
+    label: "DOCX",
+    extensions: [".docx"],
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  },
+  markdown: {
+    label: "Markdown",
+    extensions: [".md", ".markdown"],
+    mimeTypes: ["text/markdown", "text/x-markdown"],
+  },
+  text: {
+    label: "TXT",
+    extensions: [".txt"],
+    mimeTypes: ["text/plain"],
+  },
+  jsonResume: {
+    label: "JSON Resume",
+    extensions: [".json"],
+    mimeTypes: ["application/json"],
+  },
+} satisfies Record<string, DocumentFormat>;
+
+export const acceptedFileTypes = Object.values(documentFormats)
+  .flatMap((format) => format.extensions)
+  .join(",");
+
+export const acceptedFormatLabels = Object.values(documentFormats).map((format) => format.label);
@@ -0,0 +1,5 @@
+export { ExtractorFactory } from "./extractor-factory";
+export { ExtractionError } from "./errors";
+export { documentFormats, acceptedFileTypes, acceptedFormatLabels } from "./formats";
+export type { DocumentExtractor, ExtractedDocument } from "./types";
+export type { DocumentFormat } from "./formats";
@@ -0,0 +1,80 @@
+import fs from "fs/promises";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { ExtractionError } from "./errors";
+import { ExtractorFactory } from "./extractor-factory";
+import { JsonResumeExtractor } from "./json-resume-extractor";
+
+const fixture = () => fs.readFile(path.join(__dirname, "../resume/fixtures/json-resume.json"));
+
+const extract = (document: unknown) => new JsonResumeExtractor().extract(Buffer.from(JSON.stringify(document)));
+
+describe("JsonResumeExtractor", () => {
+  it("is picked for .json uploads", () => {
+    expect(ExtractorFactory.getExtractor("resume.json")).toBeInstanceOf(JsonResumeExtractor);
+    expect(ExtractorFactory.getExtractor("resume", "application/json")).toBeInstanceOf(JsonResumeExtractor);
+  });
+
+  it("imports a full JSON Resume as structured data", async () => {
+    const { text, resumeData } = await new JsonResumeExtractor().extract(await fixture());
+
+    expect(JSON.parse(text).basics.name).toBe("Alex Morgan");
+    expect(resumeData).toEqual({
+      personalInfo: {
+        name: "Alex Morgan",
+        email: "alex.morgan@example.com",
+        phone: "+1 555 0100",
+        linkedin: "https://linkedin.com/in/alexmorgan",
+        github: "https://github.com/alexmorgan",
+      },
+      summary: "Full-stack engineer with eight years of experience building web products.",
+      workExperience: [
+        {
+          company: "Northwind Labs",
+          role: "Senior Software Engineer",
+          dates: "2021-03 - Present",
+          responsibilities: ["Led the rewrite of the billing platform, cutting invoice errors by 40%", "Mentored four engineers"],
+        },
+        {
+          company: "Contoso",
+          role: "Software Engineer",
+          dates: "2017-06-01 - 2021-02-28",
+          responsibilities: ["Built the customer dashboard"],
+        },
+      ],
+      education: [{ institution: "State University", degree: "BSc in Computer Science", dates: "2013 - 2017" }],
+      skills: ["TypeScript", "Go", "PostgreSQL"],
+      projects: [
+        {
+          name: "ledger-kit",
+          description: "Double-entry bookkeeping library. Used in production by three teams.",
+          technologies: ["TypeScript"],
+        },
+      ],
+    });
+  });
+
+  it("leaves missing optional sections empty", async () => {
+    const { resumeData } = await extract({ basics: { name: "Sam Lee", label: "Designer" } });
+
+    expect(resumeData).toEqual({
+      personalInfo: { name: "Sam Lee", email: "", phone: "", linkedin: "", github: "" },
+      summary: "Designer",
+      workExperience: [],
+      education: [],
+      skills: [],
+      projects: [],
+    });
+  });
+
+  it("rejects a JSON Resume without the required fields", async () => {
+    await expect(extract({ basics: {}, education: [{ area: "Design" }] })).rejects.toThrow(
+      'The JSON Resume is incomplete: "personalInfo.name" is missing. "education[0].institution" is missing.'
+    );
+  });
+
+  it("rejects JSON that is not a JSON Resume", async () => {
+    await expect(extract({ personalInfo: { name: "Sam Lee" } })).rejects.toBeInstanceOf(ExtractionError);
+    await expect(new JsonResumeExtractor().extract(Buffer.from("{ not json"))).rejects.toThrow("The JSON file could not be parsed.");
+  });
+});
@@ -0,0 +1,27 @@
+import { fromJsonResume, isJsonResume } from "@/lib/resume";
+import { ExtractionError } from "./errors";
+import { documentFormats } from "./formats";
+import { DocumentExtractor, ExtractedDocument } from "./types";
+
+export class JsonResumeExtractor implements DocumentExtractor {
+  readonly format = documentFormats.jsonResume;
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(buffer.toString("utf-8"));
+    } catch {
+      throw new ExtractionError("The JSON file could not be parsed.");
+    }
+    if (!isJsonResume(parsed)) {
+      throw new ExtractionError("JSON files must follow the JSON Resume schema (https://jsonresume.org/schema).");
+    }
+
+    const { data, errors } = fromJsonResume(parsed);
+    if (errors.length > 0) {
+      throw new ExtractionError(`The JSON Resume is incomplete: ${errors.join(" ")}`);
+    }
+
+    return { text: JSON.stringify(parsed, null, 2), resumeData: data };
+  }
+}
@@ -0,0 +1,26 @@
+import { documentFormats } from "./formats";
+import { DocumentExtractor, ExtractedDocument } from "./types";
+
+// Reduces Markdown to readable plain text; link targets are kept since they often hold profile URLs
+const stripMarkdown = (markdown: string) =>
+  markdown
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, "$1")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)")
+    .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+    .replace(/^\s{0,3}>\s?/gm, "")
+    .replace(/^\s*[-*+]\s+/gm, "- ")
+    .replace(/^\s*([-*_]\s*){3,}$/gm, "")
+    .replace(/(\*\*|__)(.*?)\1/g, "$2")
+    .replace(/(^|[^\w*])([*_])(\S(?:.*?\S)?)\2(?![\w*])/gm, "$1$3")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+export class MarkdownExtractor implements DocumentExtractor {
+  readonly format = documentFormats.markdown;
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    return { text: stripMarkdown(buffer.toString("utf-8")) };
+  }
+}
@@ -0,0 +1,70 @@
+import PDFParser from "pdf2json";
+import type { Fill, Page, Text } from "pdf2json";
+import { documentFormats } from "./formats";
+import { DocumentExtractor, ExtractedDocument } from "./types";
+
+// Font sizes below this are unreadable when printed or on screen
+const MIN_VISIBLE_FONT_SIZE = 2;
+// Difference in relative luminance (0-1) below which text blends into what is behind it
+const MIN_VISIBLE_CONTRAST = 0.12;
+
+const colorDict = PDFParser.colorDict as string[];
+
+const colorOf = (item: Text | Fill, fallback: string) =>
+  item.oc ?? (item.clr !== undefined && item.clr >= 0 ? colorDict[item.clr] : undefined) ?? fallback;
+
+const luminance = (hex: string) => {
+  const match = hex.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})/i);
+  if (!match) return 0;
+  const [r, g, b] = match.slice(1).map((channel) => parseInt(channel, 16) / 255);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// The topmost filled rectangle under the text's position, or the white page
+const backgroundOf = (page: Page, text: Text) => {
+  const fill = [...page.Fills]
+    .reverse()
+    .find((candidate) => text.x >= candidate.x && text.x <= candidate.x + candidate.w && text.y >= candidate.y && text.y <= candidate.y + candidate.h);
+  return fill ? colorOf(fill, "#000000") : "#ffffff";
+};
+
+/**
+ * Text a human reader cannot see: colored like its background (white on
+ * white), too small to read or placed outside the page. Hidden text is a
+ * common way to smuggle instructions to the model, so it is kept out of the
+ * extracted text and reported separately.
+ */
+const isHidden = (page: Page, text: Text) => {
+  const fontSize = text.R[0]?.TS?.[1];
+  if (fontSize !== undefined && fontSize < MIN_VISIBLE_FONT_SIZE) return true;
+  if (text.x < 0 || text.y < 0 || text.x > page.Width || text.y > page.Height) return true;
+  return Math.abs(luminance(colorOf(text, "#000000")) - luminance(backgroundOf(page, text))) < MIN_VISIBLE_CONTRAST;
+};
+
+const textOf = (text: Text) => text.R.map((run) => decodeURIComponent(run.T)).join("");
+
+export class PdfExtractor implements DocumentExtractor {
+  readonly format = documentFormats.pdf;
+
+  extract(buffer: Buffer): Promise<ExtractedDocument> {
+    return new Promise((resolve, reject) => {
+      const pdfParser = new PDFParser();
+      pdfParser.on("pdfParser_dataError", (errData: any) => reject(new Error(errData.parserError)));
+      pdfParser.on("pdfParser_dataReady", (pdfData) => {
+        const pageCount = pdfData.Pages.length;
+        const hiddenText: string[] = [];
+        const rawText = pdfData.Pages.map((page) => {
+          const visible: string[] = [];
+          const hidden: string[] = [];
+          for (const text of page.Texts) {
+            (isHidden(page, text) ? hidden : visible).push(textOf(text));
+          }
+          if (hidden.length > 0) hiddenText.push(hidden.join(" "));
+          return visible.join(" ");
+        }).join("\n");
+        resolve({ text: rawText, pageCount, hiddenText: hiddenText.length > 0 ? hiddenText : undefined });
+      });
+      pdfParser.parseBuffer(buffer);
+    });
+  }
+}
@@ -0,0 +1,10 @@
+import { documentFormats } from "./formats";
+import { DocumentExtractor, ExtractedDocument } from "./types";
+
+export class TextExtractor implements DocumentExtractor {
+  readonly format = documentFormats.text;
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    return { text: buffer.toString("utf-8").trim() };
+  }
+}
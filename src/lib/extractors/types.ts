@@ -0,0 +1,14 @@
+import type { ResumeData } from "@/lib/resume";
+import type { DocumentFormat } from "./formats";
+
+export interface ExtractedDocument {
+  text: string;
+  pageCount?: number; // Only set by formats with real pages
+  hiddenText?: string[]; // Text a reader cannot see, per page, left out of text; only set for PDFs that contain any
+  resumeData?: ResumeData; // Set by already-structured formats; the AI structuring step is skipped
+}
+
+export interface DocumentExtractor {
+  readonly format: DocumentFormat;
+  extract(buffer: Buffer): Promise<ExtractedDocument>;
+}
@@ -0,0 +1,67 @@
+import { KVFactory } from "@/lib/kv";
+import { PortfolioRecord } from "./types";
+
+// Key-value store for portfolio history
+const kv = () => KVFactory.getDefaultStore();
+
+const HISTORY_LIMIT = 10;
+const HISTORY_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const historyKey = (identifier: string) => `portfolio:history:${identifier}`;
+
+const saveHistory = async (identifier: string, history: PortfolioRecord[]) => {
+  // Store with 30 day expiration
+  await kv().set(historyKey(identifier), history, { ex: HISTORY_TTL_SECONDS });
+};
+
+export async function getHistory(identifier: string): Promise<PortfolioRecord[]> {
+  return await kv().get<PortfolioRecord[]>(historyKey(identifier)) || [];
+}
+
+export async function addToHistory(identifier: string, record: PortfolioRecord): Promise<void> {
+  // Keep only the most recent portfolios
+  const existingHistory = await getHistory(identifier);
+  await saveHistory(identifier, [record, ...existingHistory].slice(0, HISTORY_LIMIT));
+}
+
+export async function updateHistoryRecord(
+  identifier: string,
+  id: string,
+  changes: Partial<PortfolioRecord>
+): Promise<void> {
+  const history = await getHistory(identifier);
+  if (!history.some((record) => record.id === id)) return;
+  await saveHistory(
+    identifier,
+    history.map((record) => (record.id === id ? { ...record, ...changes } : record))
+  );
+}
+
+export async function removeFromHistory(identifier: string, id: string): Promise<void> {
+  const history = await getHistory(identifier);
+  await saveHistory(identifier, history.filter((record) => record.id !== id));
+}
+
+/**
+ * Moves the records with the given ids from one history into another,
+ * newest first. Other records stay where they are. Returns the records
+ * that were moved.
+ */
+export async function moveHistory(fromIdentifier: string, toIdentifier: string, ids: string[]): Promise<PortfolioRecord[]> {
+  const source = await getHistory(fromIdentifier);
+  const moved = source.filter((record) => ids.includes(record.id));
+  if (moved.length === 0) return [];
+
+  const existing = await getHistory(toIdentifier);
+  const merged = [...moved, ...existing.filter((record) => !moved.some((entry) => entry.id === record.id))]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  await saveHistory(toIdentifier, merged.slice(0, HISTORY_LIMIT));
+
+  const remaining = source.filter((record) => !ids.includes(record.id));
+  if (remaining.length > 0) {
+    await saveHistory(fromIdentifier, remaining);
+  } else {
+    await kv().del(historyKey(fromIdentifier));
+  }
+  return moved;
+}
@@ -0,0 +1,2 @@
+export { getHistory, addToHistory, updateHistoryRecord, removeFromHistory, moveHistory } from "./history";
+export type { PortfolioRecord } from "./types";
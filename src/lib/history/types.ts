@@ -0,0 +1,12 @@
+export interface PortfolioRecord {
+  id: string;
+  url: string;
+  template: string;
+  createdAt: string;
+  updatedAt?: string;
+  fileName: string;
+  hasImage: boolean;
+  metadataUrl?: string;
+  resumeUrl?: string;
+  slug?: string;
+}
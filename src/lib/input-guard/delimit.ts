@@ -0,0 +1,19 @@
+import crypto from "crypto";
+import { DelimitedBlock } from "./types";
+
+// Runs of angle brackets are removed from the content so it cannot imitate a marker
+const MARKER_LIKE = /<{3,}|>{3,}/g;
+
+/**
+ * Wraps untrusted content in markers the content cannot forge: the marker
+ * id is derived from a hash of the content itself, so text that tries to
+ * close the block early would change the id it needs to guess. Being
+ * derived from the content keeps prompt builders pure.
+ */
+export function delimitUntrusted(label: string, content: string): DelimitedBlock {
+  const safeContent = content.replace(MARKER_LIKE, "");
+  const id = crypto.createHash("sha256").update(safeContent).digest("hex").slice(0, 12).toUpperCase();
+  const open = `<<<${label}_${id}>>>`;
+  const close = `<<<END_${label}_${id}>>>`;
+  return { open, close, block: `${open}\n${safeContent}\n${close}` };
+}
@@ -0,0 +1,90 @@
+import { InputFinding, HardenedText } from "./types";
+
+export const REDACTION_MARKER = "[removed]";
+
+const EXCERPT_LENGTH = 120;
+
+/**
+ * Phrases that address the model rather than a human reader. Each match is
+ * removed up to the end of its sentence, since the instruction usually
+ * continues after the trigger ("ignore previous instructions and ...").
+ * Words that also appear in ordinary resumes (System, Assistant, model,
+ * JavaScript) only count when what follows them is shaped like an
+ * instruction, so "System: Linux" or "JavaScript: React" are kept.
+ */
+const INSTRUCTION_PATTERNS: RegExp[] = [
+  /\b(?:ignore|disregard|forget|override|bypass)\s+(?:all\s+|any\s+|the\s+|your\s+|these\s+)*(?:previous|prior|above|earlier|preceding|system|original|other)\s+(?:instructions?|prompts?|rules|directions|guidelines|context)/gi,
+  /\b(?:new|updated|real|actual|additional)\s+instructions?\s*:/gi,
+  /\b(?:you\s+are\s+now\s+(?:an?|the|in)\b|from\s+now\s+on,?\s+(?:you|act|respond|reply|answer|ignore)\b|pretend\s+(?:to\s+be|you\s+are))/gi,
+  /\b(?:reveal|print|repeat|show)\s+(?:\w+\s+){0,2}(?:system|developer|hidden)\s+(?:prompt|message|instructions?)\b/gi,
+  /\b(?:note|message|instructions?)\s+(?:to|for)\s+(?:the\s+)?(?:ai|llm|language\s+model|chatgpt|gpt|gemini|claude|llama|screening\s+(?:bot|tool|system))\b/gi,
+  /\b(?:note|message|instructions?)\s+(?:to|for)\s+(?:the\s+)?(?:model|assistant)\s*:/gi,
+  /\bif\s+you\s+are\s+(?:an?\s+)?(?:ai|llm|language\s+model|automated)\b/gi,
+  /\b(?:respond|reply|answer|output|return|classify|label)\s+(?:\w+\s+){0,4}(?:only\s+)?(?:with|as)\s+["'`]?(?:valid[_\s]resume|not[_\s]a[_\s]resume|yes|true)\b/gi,
+  /\b(?:VALID_RESUME|NOT_A_RESUME)\b/g,
+  /<\|[a-z_]+\|>|\[\/?INST\]|<\/?(?:system|assistant|user)>|^\s*#{2,}\s*(?:system|instructions?|assistant)\s*:?\s*$/gim,
+  // A chat role marker followed by an order, not a label such as "System: Linux"
+  /^\s*(?:system|assistant)\s*:\s*(?:you\b|ignore\b|disregard\b|forget\b|from\s+now\s+on\b|always\b|never\b|do\s+not\b|don't\b|respond\b|reply\b|answer\b|output\b|classify\b|label\b|the\s+(?:user|document|candidate|resume)\b|this\s+(?:document|candidate|resume)\b)/gim,
+  /<\s*script\b|javascript:\s*(?:[a-z_$][\w$.]*\s*\(|void\b|\/\/)|\bon(?:load|error|click|mouseover)\s*=/gi,
+];
+
+// End of the sentence or line the match is in
+const SENTENCE_END = /[.!?\n]/g;
+
+export const excerptOf = (text: string) => text.replace(/\s+/g, " ").trim().slice(0, EXCERPT_LENGTH);
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const findSpans = (text: string): Span[] => {
+  const spans: Span[] = [];
+  for (const pattern of INSTRUCTION_PATTERNS) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const start = match.index ?? 0;
+      SENTENCE_END.lastIndex = start + match[0].length;
+      const end = SENTENCE_END.exec(text)?.index ?? text.length;
+      spans.push({ start, end });
+    }
+  }
+
+  // Merge overlapping spans so each passage is reported and removed once
+  return spans
+    .sort((a, b) => a.start - b.start)
+    .reduce<Span[]>((merged, span) => {
+      const last = merged[merged.length - 1];
+      if (last && span.start <= last.end) {
+        last.end = Math.max(last.end, span.end);
+      } else {
+        merged.push({ ...span });
+      }
+      return merged;
+    }, []);
+};
+
+// Instruction-like passages in the text, without changing it
+export function detectInstructions(text: string): InputFinding[] {
+  return findSpans(text).map(({ start, end }) => ({ kind: "instruction", excerpt: excerptOf(text.slice(start, end)) }));
+}
+
+/**
+ * Replaces every instruction-like passage with REDACTION_MARKER. The rest
+ * of the document is left untouched, so a resume that merely mentions
+ * "system prompts" in a sentence loses that sentence, not the upload.
+ */
+export function redactInstructions(text: string): HardenedText {
+  const spans = findSpans(text);
+  let redacted = "";
+  let position = 0;
+  for (const { start, end } of spans) {
+    redacted += `${text.slice(position, start)}${REDACTION_MARKER}`;
+    position = end;
+  }
+  redacted += text.slice(position);
+
+  return {
+    text: redacted,
+    findings: spans.map(({ start, end }) => ({ kind: "instruction", excerpt: excerptOf(text.slice(start, end)) })),
+  };
+}
@@ -0,0 +1,18 @@
+import { excerptOf, redactInstructions } from "./detect-injection";
+import { HardenedText, InputFinding } from "./types";
+
+/**
+ * Prepares extracted resume text for the prompts: instruction-like passages
+ * are redacted and text hidden from human readers (already left out by the
+ * extractor) is recorded as a finding. Delimiting happens in the prompt
+ * builders, which know how the text is embedded.
+ */
+export function hardenResumeText(text: string, hiddenText: string[] = []): HardenedText {
+  const { text: redacted, findings } = redactInstructions(text);
+  const hiddenFindings: InputFinding[] = hiddenText
+    .map(excerptOf)
+    .filter(Boolean)
+    .map((excerpt) => ({ kind: "hidden-text", excerpt }));
+
+  return { text: redacted, findings: [...findings, ...hiddenFindings] };
+}
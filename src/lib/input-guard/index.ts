@@ -0,0 +1,4 @@
+export { delimitUntrusted } from "./delimit";
+export { detectInstructions, redactInstructions, REDACTION_MARKER } from "./detect-injection";
+export { hardenResumeText } from "./harden";
+export type { DelimitedBlock, HardenedText, InputFinding, InputFindingKind } from "./types";
@@ -0,0 +1,18 @@
+// "instruction": text addressed to the model; "hidden-text": PDF text a reader cannot see
+export type InputFindingKind = "instruction" | "hidden-text";
+
+export interface InputFinding {
+  kind: InputFindingKind;
+  excerpt: string; // Start of the offending text, for logs and metadata.json
+}
+
+export interface HardenedText {
+  text: string; // Visible text with instruction-like passages replaced by REDACTION_MARKER
+  findings: InputFinding[];
+}
+
+export interface DelimitedBlock {
+  open: string;
+  close: string;
+  block: string; // Content between the open and close markers
+}
@@ -0,0 +1,6 @@
+export { KVFactory, isKVStoreType } from "./kv-factory";
+export { UpstashKVStore } from "./upstash-store";
+export { RedisKVStore } from "./redis-store";
+export { MemoryKVStore } from "./memory-store";
+export type { KVStore, KVSetOptions, KVHash } from "./types";
+export type { KVStoreType } from "./kv-factory";
@@ -0,0 +1,62 @@
+import { Redis } from "@upstash/redis";
+import IORedis from "ioredis";
+import { KVStore } from "./types";
+import { UpstashKVStore } from "./upstash-store";
+import { RedisKVStore } from "./redis-store";
+import { MemoryKVStore } from "./memory-store";
+
+export type KVStoreType = "upstash" | "redis" | "memory";
+
+const kvStoreTypes: KVStoreType[] = ["upstash", "redis", "memory"];
+
+export const isKVStoreType = (value: string): value is KVStoreType => kvStoreTypes.includes(value as KVStoreType);
+
+// Without KV_PROVIDER the store follows whichever connection is configured, falling back to memory
+const configuredStoreType = (): KVStoreType => {
+  const configured = process.env.KV_PROVIDER;
+  if (configured) {
+    if (!isKVStoreType(configured)) throw new Error(`Unknown key-value store: ${configured}`);
+    return configured;
+  }
+  if (process.env.UPSTASH_REDIS_REST_URL) return "upstash";
+  if (process.env.REDIS_URL) return "redis";
+  return "memory";
+};
+
+// Kept on globalThis so the in-memory data and Redis connection survive module reloads in development
+const globalForKV = globalThis as typeof globalThis & { defaultKVStore?: KVStore };
+
+export class KVFactory {
+  static createStore(storeType?: KVStoreType): KVStore {
+    const type = storeType || configuredStoreType();
+
+    switch (type) {
+      case "upstash": {
+        if (!process.env.UPSTASH_REDIS_REST_URL || !process.env.UPSTASH_REDIS_REST_TOKEN) {
+          throw new Error("UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN environment variables must be set.");
+        }
+        return new UpstashKVStore(Redis.fromEnv());
+      }
+
+      case "redis":
+        return new RedisKVStore(new IORedis(process.env.REDIS_URL || "redis://localhost:6379"));
+
+      case "memory":
+        return new MemoryKVStore();
+
+      default:
+        throw new Error(`Unknown key-value store: ${type}`);
+    }
+  }
+
+  // Shared by every caller, unlike storage providers, so there is one connection and one in-memory dataset
+  static getDefaultStore(): KVStore {
+    if (!globalForKV.defaultKVStore) {
+      globalForKV.defaultKVStore = this.createStore();
+      if (process.env.NODE_ENV === "development") {
+        console.log(`Using key-value store: ${globalForKV.defaultKVStore.getName()}`);
+      }
+    }
+    return globalForKV.defaultKVStore;
+  }
+}
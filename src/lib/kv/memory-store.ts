@@ -0,0 +1,106 @@
+import { deserialize, serialize } from "./serialize";
+import { KVHash, KVSetOptions, KVStore } from "./types";
+
+interface MemoryEntry {
+  value: string | Record<string, number>;
+  expiresAt?: number;
+}
+
+// Expired entries are dropped when read, and swept at most once a minute when written
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Keeps everything in the memory of the server process: nothing survives a
+ * restart and instances do not share data. Meant for local development and
+ * single-instance self-hosting without Redis.
+ */
+export class MemoryKVStore implements KVStore {
+  private entries = new Map<string, MemoryEntry>();
+  private lastSweep = Date.now();
+
+  async get<T>(key: string): Promise<T | null> {
+    return deserialize<T>(this.readString(key));
+  }
+
+  async set(key: string, value: unknown, { nx, ex }: KVSetOptions = {}): Promise<boolean> {
+    if (nx && this.entry(key)) return false;
+    this.write(key, { value: serialize(value), expiresAt: ex ? Date.now() + ex * 1000 : undefined });
+    return true;
+  }
+
+  async getdel<T>(key: string): Promise<T | null> {
+    const value = this.readString(key);
+    this.entries.delete(key);
+    return deserialize<T>(value);
+  }
+
+  async del(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.entry(key) !== null;
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const current = this.entry(key);
+    const count = Number(current?.value ?? 0) + 1;
+    if (!Number.isSafeInteger(count)) {
+      throw new Error(`Value at ${key} is not an integer.`);
+    }
+    this.write(key, { value: String(count), expiresAt: current ? current.expiresAt : Date.now() + ttlSeconds * 1000 });
+    return count;
+  }
+
+  async incrementHash(key: string, increments: Record<string, number>, ttlSeconds: number): Promise<void> {
+    const current = this.entry(key)?.value;
+    if (typeof current === "string") {
+      throw new Error(`Value at ${key} is not a hash.`);
+    }
+    const hash = { ...current };
+    for (const [field, value] of Object.entries(increments)) {
+      hash[field] = (hash[field] ?? 0) + value;
+    }
+    this.write(key, { value: hash, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async getHashes(keys: string[]): Promise<(KVHash | null)[]> {
+    return keys.map((key) => {
+      const value = this.entry(key)?.value;
+      return value && typeof value !== "string" ? { ...value } : null;
+    });
+  }
+
+  getName(): string {
+    return "In-Memory";
+  }
+
+  private entry(key: string): MemoryEntry | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  private readString(key: string): string | null {
+    const value = this.entry(key)?.value ?? null;
+    if (value !== null && typeof value !== "string") {
+      throw new Error(`Value at ${key} is a hash.`);
+    }
+    return value;
+  }
+
+  private write(key: string, entry: MemoryEntry): void {
+    this.entries.set(key, entry);
+
+    const now = Date.now();
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    this.entries.forEach((value, entryKey) => {
+      if (value.expiresAt !== undefined && value.expiresAt <= now) this.entries.delete(entryKey);
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import RedisMock from "ioredis-mock";
+import type Redis from "ioredis";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { RedisKVStore } from "./redis-store";
+
+describe("RedisKVStore", () => {
+  let client: Redis;
+  let store: RedisKVStore;
+
+  beforeEach(() => {
+    client = new RedisMock();
+    store = new RedisKVStore(client);
+  });
+
+  afterEach(async () => {
+    await client.flushall();
+    client.disconnect();
+  });
+
+  it("reads back values with the types they were stored with", async () => {
+    await store.set("string", "hello");
+    await store.set("number", 42);
+    await store.set("object", { id: "abc", tags: ["a"] });
+    await store.set("id", "12345678901234567890");
+
+    expect(await store.get("string")).toBe("hello");
+    expect(await store.get("number")).toBe(42);
+    expect(await store.get("object")).toEqual({ id: "abc", tags: ["a"] });
+    expect(await store.get("id")).toBe("12345678901234567890");
+    expect(await store.get("missing")).toBeNull();
+  });
+
+  it("keeps existing keys with nx and applies the expiry", async () => {
+    expect(await store.set("token", "first", { nx: true, ex: 60 })).toBe(true);
+    expect(await store.set("token", "second", { nx: true })).toBe(false);
+    expect(await store.get("token")).toBe("first");
+    expect(await client.ttl("token")).toBeGreaterThan(0);
+  });
+
+  it("reads and deletes keys", async () => {
+    await store.set("token", { email: "alex@mail.test" });
+
+    expect(await store.exists("token")).toBe(true);
+    expect(await store.getdel("token")).toEqual({ email: "alex@mail.test" });
+    expect(await store.exists("token")).toBe(false);
+
+    await store.set("other", 1);
+    await store.del("other");
+    expect(await store.get("other")).toBeNull();
+  });
+
+  it("expires counters from their first increment", async () => {
+    expect(await store.increment("count", 60)).toBe(1);
+    expect(await store.increment("count", 60)).toBe(2);
+    expect(await client.ttl("count")).toBeGreaterThan(0);
+  });
+
+  it("sums hash fields and returns null for missing hashes", async () => {
+    await store.incrementHash("usage", { requests: 1, cost: 0.25 }, 60);
+    await store.incrementHash("usage", { requests: 1, cost: 0.5 }, 60);
+
+    expect(await store.getHashes(["usage", "missing"])).toEqual([{ requests: 2, cost: 0.75 }, null]);
+    expect(await store.getHashes([])).toEqual([]);
+    expect(await client.ttl("usage")).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,73 @@
+import Redis from "ioredis";
+import { deserialize, serialize } from "./serialize";
+import { KVHash, KVSetOptions, KVStore } from "./types";
+
+// HGETALL replies with an empty object for missing keys
+const toHash = (reply: Record<string, string>): KVHash | null => {
+  const entries = Object.entries(reply);
+  if (entries.length === 0) return null;
+  return Object.fromEntries(entries.map(([field, value]) => [field, deserialize<string | number>(value) ?? ""]));
+};
+
+// Pipelines report each command's error next to its result instead of rejecting
+const pipelineResults = (results: [Error | null, unknown][] | null): unknown[] =>
+  (results ?? []).map(([error, result]) => {
+    if (error) throw error;
+    return result;
+  });
+
+export class RedisKVStore implements KVStore {
+  private client: Redis;
+
+  constructor(client: Redis) {
+    this.client = client;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return deserialize<T>(await this.client.get(key));
+  }
+
+  async set(key: string, value: unknown, { nx, ex }: KVSetOptions = {}): Promise<boolean> {
+    const serialized = serialize(value);
+    const result = nx
+      ? ex ? await this.client.set(key, serialized, "EX", ex, "NX") : await this.client.set(key, serialized, "NX")
+      : ex ? await this.client.set(key, serialized, "EX", ex) : await this.client.set(key, serialized);
+    return result !== null;
+  }
+
+  async getdel<T>(key: string): Promise<T | null> {
+    return deserialize<T>(await this.client.getdel(key));
+  }
+
+  async del(key: string): Promise<void> {
+    await this.client.del(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.client.exists(key)) > 0;
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const count = await this.client.incr(key);
+    if (count === 1) await this.client.expire(key, ttlSeconds);
+    return count;
+  }
+
+  async incrementHash(key: string, increments: Record<string, number>, ttlSeconds: number): Promise<void> {
+    const pipeline = this.client.pipeline();
+    for (const [field, value] of Object.entries(increments)) pipeline.hincrbyfloat(key, field, value);
+    pipeline.expire(key, ttlSeconds);
+    pipelineResults(await pipeline.exec());
+  }
+
+  async getHashes(keys: string[]): Promise<(KVHash | null)[]> {
+    if (keys.length === 0) return [];
+    const pipeline = this.client.pipeline();
+    for (const key of keys) pipeline.hgetall(key);
+    return pipelineResults(await pipeline.exec()).map((reply) => toHash(reply as Record<string, string>));
+  }
+
+  getName(): string {
+    return "Redis";
+  }
+}
@@ -0,0 +1,22 @@
+// Strings, numbers and booleans are stored as-is and everything else as JSON, like @upstash/redis
+export const serialize = (value: unknown): string => {
+  switch (typeof value) {
+    case "string":
+    case "number":
+    case "boolean":
+      return String(value);
+    default:
+      return JSON.stringify(value);
+  }
+};
+
+// Reads back JSON where possible; numbers that would lose precision stay strings
+export const deserialize = <T>(raw: string | null): T | null => {
+  if (raw === null) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return (typeof parsed === "number" && parsed.toString() !== raw ? raw : parsed) as T;
+  } catch {
+    return raw as T;
+  }
+};
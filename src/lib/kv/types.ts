@@ -0,0 +1,23 @@
+export interface KVSetOptions {
+  nx?: boolean; // Only set the key when it does not exist yet
+  ex?: number; // Expiry in seconds
+}
+
+export type KVHash = Record<string, string | number>;
+
+/**
+ * Key-value storage for history, accounts, slugs, usage counters and rate
+ * limits. Values are serialized the way the Upstash client does it, so
+ * every store reads back the same types from the same data.
+ */
+export interface KVStore {
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown, options?: KVSetOptions): Promise<boolean>; // false when `nx` is set and the key exists
+  getdel<T>(key: string): Promise<T | null>;
+  del(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  increment(key: string, ttlSeconds: number): Promise<number>; // The expiry is set when the counter is created
+  incrementHash(key: string, increments: Record<string, number>, ttlSeconds: number): Promise<void>; // Also refreshes the expiry
+  getHashes(keys: string[]): Promise<(KVHash | null)[]>; // null for keys that do not exist
+  getName(): string;
+}
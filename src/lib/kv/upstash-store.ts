@@ -0,0 +1,60 @@
+import { Redis } from "@upstash/redis";
+import { KVHash, KVSetOptions, KVStore } from "./types";
+
+export class UpstashKVStore implements KVStore {
+  readonly client: Redis; // Exposed for @upstash/ratelimit
+
+  constructor(client: Redis) {
+    this.client = client;
+  }
+
+  get<T>(key: string): Promise<T | null> {
+    return this.client.get<T>(key);
+  }
+
+  async set(key: string, value: unknown, { nx, ex }: KVSetOptions = {}): Promise<boolean> {
+    const result = nx
+      ? await this.client.set(key, value, ex ? { nx: true, ex } : { nx: true })
+      : await this.client.set(key, value, ex ? { ex } : undefined);
+    return result !== null;
+  }
+
+  getdel<T>(key: string): Promise<T | null> {
+    return this.client.getdel<T>(key);
+  }
+
+  async del(key: string): Promise<void> {
+    await this.client.del(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.client.exists(key)) > 0;
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const count = await this.client.incr(key);
+    if (count === 1) await this.client.expire(key, ttlSeconds);
+    return count;
+  }
+
+  async incrementHash(key: string, increments: Record<string, number>, ttlSeconds: number): Promise<void> {
+    const pipeline = this.client.pipeline();
+    // HINCRBYFLOAT also works on integer fields, while HINCRBY fails once a field holds a fraction
+    for (const [field, value] of Object.entries(increments)) {
+      pipeline.hincrbyfloat(key, field, value);
+    }
+    pipeline.expire(key, ttlSeconds);
+    await pipeline.exec();
+  }
+
+  async getHashes(keys: string[]): Promise<(KVHash | null)[]> {
+    if (keys.length === 0) return [];
+    const pipeline = this.client.pipeline();
+    keys.forEach((key) => pipeline.hgetall(key));
+    return pipeline.exec<(KVHash | null)[]>();
+  }
+
+  getName(): string {
+    return "Upstash Redis";
+  }
+}
@@ -0,0 +1,22 @@
+import type { StorageProvider } from "@/lib/storage";
+import { GenerationError } from "./errors";
+import { isPortfolioId } from "./read-portfolio";
+import { portfolioPrefix } from "./save-portfolio";
+
+/**
+ * Removes every file stored under `portfolios/{id}`: the current HTML,
+ * all versions, uploaded assets and metadata.json. Returns the number of
+ * files deleted.
+ */
+export async function deletePortfolio(storageProvider: StorageProvider, id: string): Promise<number> {
+  if (!isPortfolioId(id)) {
+    throw new GenerationError("Portfolio not found.", 404);
+  }
+
+  // The trailing slash keeps the prefix from matching other ids
+  const paths = await storageProvider.list(`${portfolioPrefix(id)}/`);
+  for (const path of paths) {
+    await storageProvider.deleteFile(path);
+  }
+  return paths.length;
+}
@@ -0,0 +1,35 @@
+import { ExtractionError } from "@/lib/extractors";
+import { ResumeStructuringError } from "@/lib/resume";
+
+/**
+ * An expected failure caused by the uploaded document (not a resume, too
+ * long, unreadable). Carries the HTTP status the route should respond with.
+ */
+export class GenerationError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "GenerationError";
+    this.status = status;
+  }
+}
+
+// Maps pipeline failures to the response status and body sent to the client
+export const toErrorPayload = (
+  error: any,
+  context: string
+): { status: number; body: { error: string; details?: string[] } } => {
+  if (error instanceof GenerationError) {
+    return { status: error.status, body: { error: error.message } };
+  }
+  if (error instanceof ExtractionError) {
+    return { status: 400, body: { error: error.message } };
+  }
+  if (error instanceof ResumeStructuringError) {
+    console.error("Structured resume failed validation:", error.errors);
+    return { status: 422, body: { error: error.message, details: error.errors } };
+  }
+  console.error(`Error in ${context}:`, error);
+  return { status: 500, body: { error: error.message || "An internal server error occurred." } };
+};
@@ -0,0 +1,219 @@
+import type { AIProvider, AIUsage } from "@/lib/ai";
+import type { ResumeData } from "@/lib/resume";
+import { renderPortfolioHtml } from "@/lib/renderer";
+import { sanitizePortfolioHtml } from "@/lib/sanitizer";
+import { checkPortfolioHtml } from "@/lib/quality";
+import { getPromptSet, PromptSet } from "@/lib/prompts";
+import { getTemplate, PortfolioTemplate } from "@/lib/templates";
+import { GenerationError } from "./errors";
+import { GenerationEvent, GenerationMode, PortfolioQuality, PortfolioRenderer } from "./types";
+
+// Helper function to clean up AI response for HTML
+const cleanHTML = (text: string) => {
+  const match = text.match(/```html\n([\s\S]*?)\n```/);
+  return match ? match[1] : text;
+};
+
+// Rough token estimate for progress reporting; providers chunk output differently
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+const TOKEN_PROGRESS_INTERVAL = 50;
+
+const BUILTIN_RENDERER_NAME = "Built-in renderer";
+
+const originOf = (url?: string) => {
+  try {
+    return url ? [new URL(url).origin] : [];
+  } catch {
+    return []; // Site-relative URLs from local storage are covered by 'self'
+  }
+};
+const GENERATION_MODES: GenerationMode[] = ["ai", "fast"];
+
+export const isGenerationMode = (value: string): value is GenerationMode =>
+  (GENERATION_MODES as string[]).includes(value);
+
+// Looks up a prompt set for a new generation, rejecting versions that are not registered or only kept for replay
+export const resolvePromptSet = (version?: string): PromptSet => {
+  const prompts = getPromptSet(version);
+  if (!prompts) {
+    throw new GenerationError(`Unknown prompt version: ${version}`);
+  }
+  if (prompts.replayOnly) {
+    throw new GenerationError(`Prompt version ${prompts.version} is kept for replay only and cannot be used for new generations.`);
+  }
+  return prompts;
+};
+
+const DEFAULT_GENERATION_TIMEOUT_MS = 180_000;
+// AI pages that fail the quality check are regenerated until this many attempts, then the built-in renderer is used
+const DEFAULT_GENERATION_ATTEMPTS = 2;
+
+// Yields from the stream until it ends or the overall deadline passes, which aborts the model call
+async function* readWithDeadline(
+  stream: AsyncIterable<string>,
+  timeoutMs: number,
+  controller: AbortController
+): AsyncIterable<string> {
+  const iterator = stream[Symbol.asyncIterator]();
+  const deadline = Date.now() + timeoutMs;
+
+  while (true) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`HTML generation timed out after ${timeoutMs}ms.`);
+        controller.abort(error);
+        reject(error);
+      }, deadline - Date.now());
+    });
+
+    try {
+      const result = await Promise.race([iterator.next(), timeout]);
+      if (result.done) return;
+      yield result.value;
+    } catch (error) {
+      await iterator.return?.();
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export interface GeneratePortfolioHtmlOptions {
+  template: string;
+  uploadedImageUrl?: string;
+  promptSeed?: string; // Reuse a recorded seed to reproduce the creative direction of a version
+  promptVersion?: string; // Defaults to PROMPT_VERSION or the latest prompt set
+  mode?: GenerationMode;
+  onProgress?: (event: GenerationEvent) => void;
+  onUsage?: (usage: AIUsage) => void; // Not called when the built-in renderer is used
+}
+
+export interface GeneratedPortfolioHtml {
+  html: string;
+  promptSeed: string;
+  renderer: PortfolioRenderer;
+  provider: string; // Name of the AI provider, or the built-in renderer
+  promptVersion: string;
+  quality: PortfolioQuality;
+}
+
+type AIGenerationOptions = Pick<GeneratePortfolioHtmlOptions, "uploadedImageUrl" | "promptSeed" | "onProgress" | "onUsage"> & {
+  attempt: number;
+  previousIssues?: string[];
+};
+
+/**
+ * AI Magic, Step 2: asks the model for a complete HTML page, streaming the
+ * output and reporting approximate token progress.
+ */
+const generateWithAI = async (
+  aiProvider: AIProvider,
+  structuredData: ResumeData,
+  templateDefinition: PortfolioTemplate,
+  prompts: PromptSet,
+  { uploadedImageUrl, promptSeed, onProgress, onUsage, attempt, previousIssues }: AIGenerationOptions
+): Promise<{ html: string; promptSeed: string }> => {
+  // Add randomness to avoid caching and encourage creative variations
+  const randomSeed = promptSeed || Math.random().toString(36).substring(7);
+  const generationPrompt = prompts.buildGenerationPrompt({
+    data: structuredData,
+    template: templateDefinition,
+    imageUrl: uploadedImageUrl,
+    seed: randomSeed,
+    previousIssues,
+  });
+
+  const timeoutMs = Number(process.env.AI_GENERATION_TIMEOUT_MS) || DEFAULT_GENERATION_TIMEOUT_MS;
+  let rawHtml = "";
+  let reportedTokens = 0;
+  const controller = new AbortController();
+  const stream = aiProvider.streamText(generationPrompt, onUsage, { signal: controller.signal });
+  for await (const delta of readWithDeadline(stream, timeoutMs, controller)) {
+    rawHtml += delta;
+    const tokens = estimateTokens(rawHtml);
+    if (tokens - reportedTokens >= TOKEN_PROGRESS_INTERVAL) {
+      reportedTokens = tokens;
+      onProgress?.({ stage: "generating", tokens, ...(attempt > 1 ? { attempt } : {}) });
+    }
+  }
+
+  return { html: cleanHTML(rawHtml), promptSeed: randomSeed };
+};
+
+/**
+ * Produces the portfolio HTML. In "ai" mode the model designs the page; a
+ * page that fails the quality check is regenerated with the reasons, and
+ * the built-in renderer is used if every attempt fails or the provider
+ * fails or times out. "fast" mode uses the built-in renderer directly
+ * without calling a model. The result is sanitized either way before it
+ * can be published.
+ */
+export async function generatePortfolioHtml(
+  aiProvider: AIProvider,
+  structuredData: ResumeData,
+  { template, promptVersion, mode = "ai", ...options }: GeneratePortfolioHtmlOptions
+): Promise<GeneratedPortfolioHtml> {
+  const templateDefinition = getTemplate(template);
+  if (!templateDefinition) {
+    throw new GenerationError(`Unknown template: ${template}`);
+  }
+  const prompts = resolvePromptSet(promptVersion);
+
+  const renderBuiltin = (attempts: number): GeneratedPortfolioHtml => {
+    const html = renderPortfolioHtml(structuredData, templateDefinition, { imageUrl: options.uploadedImageUrl });
+    return {
+      html,
+      promptSeed: "",
+      renderer: "builtin",
+      provider: BUILTIN_RENDERER_NAME,
+      promptVersion: prompts.version,
+      quality: { ...checkPortfolioHtml(html, structuredData), attempts },
+    };
+  };
+
+  const sanitize = (result: GeneratedPortfolioHtml): GeneratedPortfolioHtml => {
+    const { html, removed } = sanitizePortfolioHtml(result.html, { imageOrigins: originOf(options.uploadedImageUrl) });
+    if (removed.length > 0) {
+      console.warn(`Removed unsafe content from the ${result.renderer} HTML:`, removed);
+    }
+    return { ...result, html };
+  };
+
+  if (mode === "fast") {
+    return sanitize(renderBuiltin(0));
+  }
+
+  const maxAttempts = Number(process.env.AI_GENERATION_ATTEMPTS) || DEFAULT_GENERATION_ATTEMPTS;
+  let previousIssues: string[] | undefined;
+  let attempt = 1;
+  for (; attempt <= maxAttempts; attempt++) {
+    try {
+      const { html, promptSeed } = await generateWithAI(aiProvider, structuredData, templateDefinition, prompts, {
+        ...options,
+        attempt,
+        previousIssues,
+      });
+      // Checked before sanitizing, so truncated markup is not hidden by the sanitizer re-serializing it
+      const quality = checkPortfolioHtml(html, structuredData);
+      if (quality.passed) {
+        return sanitize({
+          html,
+          promptSeed,
+          renderer: "ai",
+          provider: aiProvider.getName(),
+          promptVersion: prompts.version,
+          quality: { ...quality, attempts: attempt },
+        });
+      }
+      previousIssues = quality.issues.filter((issue) => issue.severity === "error").map((issue) => issue.message);
+      console.warn(`Generated HTML failed the quality check (attempt ${attempt}/${maxAttempts}):`, previousIssues);
+    } catch (error) {
+      // Provider errors were already retried by the fallback chain
+      console.error("AI HTML generation failed, using the built-in renderer:", error);
+      break;
+    }
+  }
+  return sanitize(renderBuiltin(Math.min(attempt, maxAttempts)));
+}
@@ -0,0 +1,181 @@
+import { summarizeUsage, toStageUsage } from "@/lib/ai";
+import type { AIProviderSet, AIStage, AIUsage, StageUsage } from "@/lib/ai";
+import { ExtractorFactory, acceptedFormatLabels } from "@/lib/extractors";
+import type { ExtractedDocument } from "@/lib/extractors";
+import { detectInstructions, hardenResumeText } from "@/lib/input-guard";
+import type { InputFinding } from "@/lib/input-guard";
+import type { PromptSet } from "@/lib/prompts";
+import { structureResume, ResumeData } from "@/lib/resume";
+import { GenerationError } from "./errors";
+import { generatePortfolioHtml, resolvePromptSet } from "./generate-html";
+import { portfolioPrefix, savePortfolioVersion } from "./save-portfolio";
+import {
+  GenerationEvent,
+  GeneratePortfolioInput,
+  GeneratePortfolioOptions,
+  GeneratePortfolioResult,
+  PortfolioMetadata,
+  StageProviders,
+} from "./types";
+
+// Classifier answers below this confidence are treated as "not a resume"
+const MIN_CLASSIFICATION_CONFIDENCE = 0.7;
+
+/**
+ * Pre-validates extracted text, asks the model whether it is a resume and
+ * structures it into ResumeData. Instruction-like passages are redacted
+ * before any prompt sees the text. Also reports which provider served each
+ * step and what the input hardening found.
+ */
+const classifyAndStructure = async (
+  { text, pageCount, hiddenText }: ExtractedDocument,
+  aiProviders: AIProviderSet,
+  prompts: PromptSet,
+  onUsage: (stage: AIStage, usage: AIUsage) => void,
+  onProgress?: (event: GenerationEvent) => void
+): Promise<{ data: ResumeData; providers: StageProviders; findings: InputFinding[] }> => {
+  const { text: resumeText, findings } = hardenResumeText(text, hiddenText);
+  if (findings.length > 0) {
+    console.warn(`Input hardening found ${findings.length} suspicious passage(s):`, findings);
+  }
+
+  // 1.3. Pre-validation: Check basic resume characteristics
+  const textLength = resumeText.trim().length;
+
+  // Too short - likely not a resume
+  if (textLength < 100) {
+    throw new GenerationError("The document is too short to be a resume. Please upload a complete resume document.");
+  }
+
+  // Too long - likely a book, manual, or research paper
+  if (pageCount !== undefined && pageCount > 10) {
+    throw new GenerationError("The document is too long to be a resume (max 5 pages). Resumes should be concise and focused.");
+  }
+
+  // Extremely long text suggests non-resume content
+  if (textLength > 35000) {
+    throw new GenerationError("The document contains too much text to be a resume. Please upload a standard 1-5 page resume.");
+  }
+  onProgress?.({ stage: "parsed", pageCount, characters: textLength });
+
+  // 1.5. Validate that the document is actually a resume
+  const validationResult = await aiProviders.classification.generateText(prompts.buildClassificationPrompt({ text: resumeText }));
+  onUsage("classification", validationResult.usage);
+  const result = prompts.parseClassification(validationResult.text);
+  const classification = aiProviders.classification.getName();
+
+  if (!result) {
+    console.warn(`Unparseable classification from ${classification}:`, validationResult.text.slice(0, 200));
+  }
+  if (!result || !result.isResume || result.confidence < MIN_CLASSIFICATION_CONFIDENCE) {
+    throw new GenerationError("The uploaded document doesn't appear to be a resume or CV. Please upload a valid resume document.");
+  }
+  onProgress?.({ stage: "validated" });
+
+  // 2. AI Magic, Step 1: Structuring the Data
+  const data = await structureResume(aiProviders.structuring, prompts.buildStructuringPrompt({ text: resumeText }), {
+    onUsage: (usage) => onUsage("structuring", usage),
+  });
+  return { data, providers: { classification, structuring: aiProviders.structuring.getName() }, findings };
+};
+
+/**
+ * Runs the full pipeline: document extraction, resume classification,
+ * structuring, image upload, HTML generation and storage of the HTML,
+ * structured resume data and metadata. Stage events are reported through
+ * `onProgress` as they complete.
+ */
+export async function generatePortfolio(
+  input: GeneratePortfolioInput,
+  { aiProviders, storageProvider, onProgress }: GeneratePortfolioOptions
+): Promise<GeneratePortfolioResult> {
+  const { fileBuffer, fileName, mimeType, template, image, mode } = input;
+  const prompts = resolvePromptSet(input.promptVersion);
+  const usageCalls: StageUsage[] = [];
+  const trackUsage = (stage: AIStage, usage: AIUsage) => usageCalls.push(toStageUsage(stage, usage));
+
+  // 1. Extract text from the uploaded document
+  const extractor = ExtractorFactory.getExtractor(fileName, mimeType);
+  if (!extractor) {
+    throw new GenerationError(`Unsupported file type. Supported formats: ${acceptedFormatLabels.join(", ")}.`);
+  }
+  const document = await extractor.extract(fileBuffer);
+
+  let structuredData: ResumeData;
+  let stageProviders: StageProviders = {};
+  let inputFindings: InputFinding[];
+  if (document.resumeData) {
+    // Already-structured formats (JSON Resume) skip classification and AI structuring; the generation prompt still delimits them
+    structuredData = document.resumeData;
+    inputFindings = detectInstructions(document.text);
+    onProgress?.({ stage: "parsed", characters: document.text.length });
+    onProgress?.({ stage: "validated" });
+  } else {
+    if (!document.text.trim()) {
+      throw new GenerationError(`Could not extract text from the ${extractor.format.label} file.`, 500);
+    }
+    ({ data: structuredData, providers: stageProviders, findings: inputFindings } = await classifyAndStructure(
+      document,
+      aiProviders,
+      prompts,
+      trackUsage,
+      onProgress
+    ));
+  }
+  onProgress?.({ stage: "structured" });
+
+  // 3. Upload image first if provided (so we have the URL for HTML generation)
+  const uniqueId = crypto.randomUUID();
+  let uploadedImageUrl: string | undefined;
+  const assets = [];
+
+  if (image) {
+    uploadedImageUrl = await storageProvider.uploadFile(
+      `${portfolioPrefix(uniqueId)}/assets/profile.${image.extension}`,
+      image.buffer,
+      image.contentType
+    );
+    assets.push(`profile.${image.extension}`);
+  }
+
+  // 4. AI Magic, Step 2: Generating the Website
+  const { html, promptSeed, renderer, provider, promptVersion, quality } = await generatePortfolioHtml(aiProviders.generation, structuredData, {
+    template,
+    uploadedImageUrl,
+    promptVersion: prompts.version,
+    mode,
+    onProgress,
+    onUsage: (usage) => trackUsage("generation", usage),
+  });
+
+  // 5. Save the HTML file and structured data as version 1, then metadata.json
+  const now = new Date().toISOString();
+  const baseMetadata: PortfolioMetadata = {
+    id: uniqueId,
+    createdAt: now,
+    updatedAt: now,
+    template: template,
+    currentVersion: 0,
+    versions: [],
+    assets: assets,
+    hasImage: !!image,
+    imageUrl: uploadedImageUrl,
+    fileName: fileName,
+    sourceFormat: extractor.format.label,
+    storageProvider: storageProvider.getName(),
+    inputFindings: inputFindings.length > 0 ? inputFindings : undefined,
+  };
+  const { files, metadata } = await savePortfolioVersion(storageProvider, html, structuredData, baseMetadata, {
+    template,
+    provider,
+    renderer,
+    promptSeed,
+    promptVersion,
+    quality,
+    providers: { ...stageProviders, generation: provider },
+    usage: summarizeUsage(usageCalls),
+  });
+  onProgress?.({ stage: "stored", id: uniqueId, url: files.htmlUrl });
+
+  return { id: uniqueId, url: files.htmlUrl, files, metadata, renderer, usage: summarizeUsage(usageCalls) };
+}
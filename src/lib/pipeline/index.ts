@@ -0,0 +1,37 @@
+export { generatePortfolio } from "./generate-portfolio";
+export { regeneratePortfolio } from "./regenerate-portfolio";
+export { promotePortfolioVersion } from "./promote-version";
+export { deletePortfolio } from "./delete-portfolio";
+export { migrateStorage } from "./migrate-storage";
+export {
+  readPortfolioMetadata,
+  readOwnedPortfolioMetadata,
+  readPortfolioResume,
+  readPortfolioHtml,
+  readPortfolioHtmlFile,
+  isPortfolioId,
+  isPortfolioHtmlPath,
+  portfolioHtmlPath,
+} from "./read-portfolio";
+export { savePortfolioMetadata } from "./save-portfolio";
+export { isGenerationMode } from "./generate-html";
+export { GenerationError, toErrorPayload } from "./errors";
+export type {
+  GeneratePortfolioInput,
+  GeneratePortfolioOptions,
+  GeneratePortfolioResult,
+  GenerationEvent,
+  GenerationMode,
+  GenerationStage,
+  MigrateStorageOptions,
+  PortfolioMetadata,
+  PortfolioMigrationResult,
+  PortfolioQuality,
+  PortfolioRenderer,
+  PortfolioVersion,
+  ProfileImage,
+  PromotePortfolioVersionInput,
+  RegeneratePortfolioInput,
+  StageProviders,
+  StorageMigrationReport,
+} from "./types";
@@ -0,0 +1,142 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LocalStorageProvider } from "@/lib/storage/local-provider";
+import { migrateStorage } from "./migrate-storage";
+import { PortfolioMetadata } from "./types";
+
+const ID = "3f2a9c1e-0000-4000-8000-000000000001";
+const PREFIX = `portfolios/${ID}`;
+const TARGET_URL = "https://cdn.example.com/store";
+
+const html = (version: string) => `<!DOCTYPE html>
+<html><head><title>Alex Morgan</title></head>
+<body>
+<img src="/${PREFIX}/profile.png" alt="Alex Morgan">
+<section style="background-image: url('/${PREFIX}/profile.png')">${version}</section>
+<a href="/p/alex-morgan">Permalink</a>
+</body></html>`;
+
+const metadata: PortfolioMetadata = {
+  id: ID,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  template: "minimal",
+  currentVersion: 1,
+  versions: [
+    {
+      version: 1,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      template: "minimal",
+      provider: "Mock",
+      promptSeed: "",
+      htmlUrl: `/${PREFIX}/versions/1/index.html`,
+      resumeUrl: `/${PREFIX}/versions/1/resume.json`,
+    },
+  ],
+  assets: [`${PREFIX}/profile.png`],
+  hasImage: true,
+  imageUrl: `/${PREFIX}/profile.png`,
+  fileName: "resume.pdf",
+  storageProvider: "Local Storage",
+};
+
+// The target is a second local store served from another host, so rewritten URLs are easy to tell apart
+class CdnStorageProvider extends LocalStorageProvider {
+  getName(): string {
+    return "CDN Storage";
+  }
+}
+
+describe("migrateStorage", () => {
+  let workDir: string;
+  let source: LocalStorageProvider;
+  let target: CdnStorageProvider;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "folioflexxing-"));
+    source = new LocalStorageProvider(path.join(workDir, "source"));
+    target = new CdnStorageProvider(path.join(workDir, "target"), TARGET_URL);
+
+    await source.uploadFile(`${PREFIX}/profile.png`, Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    await source.uploadFile(`${PREFIX}/index.html`, html("current"));
+    await source.uploadFile(`${PREFIX}/versions/1/index.html`, html("v1"));
+    await source.uploadJSON(`${PREFIX}/resume.json`, { personalInfo: { name: "Alex Morgan" } });
+    await source.uploadJSON(`${PREFIX}/versions/1/resume.json`, { personalInfo: { name: "Alex Morgan" } });
+    await source.uploadJSON(`${PREFIX}/metadata.json`, metadata);
+    await source.uploadFile("portfolios/not-a-portfolio/index.html", "<p>Left alone</p>");
+
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it("copies every file and rewrites the URLs in HTML and metadata", async () => {
+    const onMigrated = vi.fn();
+    const report = await migrateStorage(source, target, { onMigrated });
+
+    expect(report.portfolios).toEqual([
+      { id: ID, status: "migrated", files: 6, rewrittenUrls: 7, url: `${TARGET_URL}/${PREFIX}/index.html` },
+    ]);
+    expect(report.totals).toEqual({ migrated: 1, skipped: 0, failed: 0, files: 6, rewrittenUrls: 7 });
+    expect(await target.list("portfolios/")).toEqual(await source.list(`${PREFIX}/`));
+
+    const page = (await target.readFile(`${PREFIX}/index.html`)).toString("utf-8");
+    expect(page).toContain(`<img src="${TARGET_URL}/${PREFIX}/profile.png"`);
+    expect(page).toContain(`url('${TARGET_URL}/${PREFIX}/profile.png')`);
+    expect(page).toContain('href="/p/alex-morgan"');
+    expect(page).toContain("img-src 'self' data: blob: https://cdn.example.com");
+    expect(page).not.toContain(`"/${PREFIX}/`);
+
+    const migrated = await target.readJSON<PortfolioMetadata>(`${PREFIX}/metadata.json`);
+    expect(migrated.storageProvider).toBe("CDN Storage");
+    expect(migrated.imageUrl).toBe(`${TARGET_URL}/${PREFIX}/profile.png`);
+    expect(migrated.versions[0].htmlUrl).toBe(`${TARGET_URL}/${PREFIX}/versions/1/index.html`);
+    expect(migrated.versions[0].resumeUrl).toBe(`${TARGET_URL}/${PREFIX}/versions/1/resume.json`);
+    expect(migrated.assets).toEqual([`${PREFIX}/profile.png`]);
+
+    expect(onMigrated).toHaveBeenCalledWith(migrated, {
+      htmlUrl: `${TARGET_URL}/${PREFIX}/index.html`,
+      resumeUrl: `${TARGET_URL}/${PREFIX}/resume.json`,
+      metadataUrl: `${TARGET_URL}/${PREFIX}/metadata.json`,
+      imageUrl: `${TARGET_URL}/${PREFIX}/profile.png`,
+    });
+
+    // The source is left in place
+    expect((await source.readJSON<PortfolioMetadata>(`${PREFIX}/metadata.json`)).imageUrl).toBe(`/${PREFIX}/profile.png`);
+  });
+
+  it("reports what it would migrate on a dry run without writing anything", async () => {
+    const onMigrated = vi.fn();
+    const report = await migrateStorage(source, target, { dryRun: true, onMigrated });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.portfolios[0]).toMatchObject({ status: "migrated", rewrittenUrls: 7, url: `${TARGET_URL}/${PREFIX}/index.html` });
+    expect(await target.list("portfolios/")).toEqual([]);
+    expect(onMigrated).not.toHaveBeenCalled();
+  });
+
+  it("skips portfolios that are already in the target unless asked to overwrite", async () => {
+    await migrateStorage(source, target);
+    await source.uploadFile(`${PREFIX}/index.html`, html("regenerated"));
+
+    expect((await migrateStorage(source, target)).totals).toMatchObject({ migrated: 0, skipped: 1 });
+    expect((await target.readFile(`${PREFIX}/index.html`)).toString("utf-8")).not.toContain("regenerated");
+
+    expect((await migrateStorage(source, target, { overwrite: true })).totals).toMatchObject({ migrated: 1, skipped: 0 });
+    expect((await target.readFile(`${PREFIX}/index.html`)).toString("utf-8")).toContain("regenerated");
+  });
+
+  it("reports a portfolio that cannot be copied and continues", async () => {
+    await source.uploadFile(`${PREFIX}/metadata.json`, "{ not json");
+
+    const report = await migrateStorage(source, target);
+
+    expect(report.portfolios[0]).toMatchObject({ id: ID, status: "failed" });
+    expect(report.totals).toMatchObject({ migrated: 0, failed: 1, files: 0 });
+  });
+});
@@ -0,0 +1,161 @@
+import type { StorageProvider, PortfolioFiles } from "@/lib/storage";
+import { sanitizePortfolioHtml } from "@/lib/sanitizer";
+import { isPortfolioId } from "./read-portfolio";
+import { portfolioPrefix } from "./save-portfolio";
+import { MigrateStorageOptions, PortfolioMetadata, PortfolioMigrationResult, StorageMigrationReport } from "./types";
+
+const CONTENT_TYPES: Record<string, string> = {
+  html: "text/html",
+  json: "application/json",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+};
+
+const extensionOf = (path: string) => path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+
+const originsOf = (urls: string[]) =>
+  Array.from(new Set(urls.flatMap((url) => {
+    try {
+      return [new URL(url).origin];
+    } catch {
+      return []; // Site-relative URLs need no entry in the policy
+    }
+  })));
+const isText = (path: string) => ["html", "json"].includes(extensionOf(path));
+
+// Absolute URLs and site-relative paths, as embedded in HTML attributes, CSS url() and JSON strings
+const URL_PATTERN = /(?:https?:\/\/|\/)[^\s"'()<>\\]+/g;
+
+/**
+ * Replaces every URL that points at one of the portfolio's files, whatever
+ * provider produced it, with the URL the target returned for that file.
+ * URLs are matched on their storage path suffix, so Vercel Blob store
+ * hosts, bucket URLs and local `/portfolios/...` paths are all recognized.
+ */
+const rewriteUrls = (text: string, urls: Map<string, string>): { text: string; count: number } => {
+  let count = 0;
+  const rewritten = text.replace(URL_PATTERN, (match) => {
+    let path: string;
+    try {
+      path = decodeURI(match.split(/[?#]/)[0]);
+    } catch {
+      return match;
+    }
+    for (const [storagePath, url] of Array.from(urls)) {
+      if (path === `/${storagePath}` || path.endsWith(`/${storagePath}`)) {
+        count++;
+        return url;
+      }
+    }
+    return match;
+  });
+  return { text: rewritten, count };
+};
+
+// Assets first, then documents that embed their URLs, then metadata.json that references everything
+const copyOrder = (path: string) => (path.endsWith("/metadata.json") ? 2 : isText(path) ? 1 : 0);
+
+async function migratePortfolio(
+  source: StorageProvider,
+  target: StorageProvider,
+  id: string,
+  paths: string[],
+  { dryRun = false, overwrite = false, onMigrated }: MigrateStorageOptions
+): Promise<PortfolioMigrationResult> {
+  const prefix = portfolioPrefix(id);
+  const metadataPath = `${prefix}/metadata.json`;
+  if (!overwrite && (await target.exists(metadataPath))) {
+    return { id, status: "skipped", files: paths.length, rewrittenUrls: 0 };
+  }
+
+  // Nothing is uploaded on a dry run, so target URLs are predicted with getPublicUrl
+  const urls = new Map<string, string>();
+  let rewrittenUrls = 0;
+  let metadata: PortfolioMetadata | undefined;
+
+  for (const path of [...paths].sort((a, b) => copyOrder(a) - copyOrder(b))) {
+    let content: Buffer | string = await source.readFile(path);
+
+    if (isText(path)) {
+      const result = rewriteUrls(content.toString("utf-8"), urls);
+      content = result.text;
+      rewrittenUrls += result.count;
+
+      if (extensionOf(path) === "html") {
+        // The embedded Content-Security-Policy names the old asset host; rebuild it for the target
+        const assetUrls = Array.from(urls).filter(([assetPath]) => !isText(assetPath)).map(([, url]) => url);
+        content = sanitizePortfolioHtml(content, { imageOrigins: originsOf(assetUrls) }).html;
+      }
+
+      if (path === metadataPath) {
+        metadata = { ...JSON.parse(content), storageProvider: target.getName() };
+        content = JSON.stringify(metadata, null, 2);
+      }
+    }
+
+    const url = dryRun
+      ? target.getPublicUrl(path)
+      : await target.uploadFile(path, content, CONTENT_TYPES[extensionOf(path)] || "application/octet-stream");
+    urls.set(path, url);
+  }
+
+  const files: PortfolioFiles = {
+    htmlUrl: urls.get(`${prefix}/index.html`) || "",
+    resumeUrl: urls.get(`${prefix}/resume.json`) || "",
+    metadataUrl: urls.get(metadataPath) || "",
+    imageUrl: metadata?.imageUrl,
+  };
+  if (!dryRun && metadata) {
+    await onMigrated?.(metadata, files);
+  }
+
+  return { id, status: "migrated", files: paths.length, rewrittenUrls, url: files.htmlUrl || undefined };
+}
+
+/**
+ * Copies every portfolio under `portfolios/` from one storage provider to
+ * another. URLs embedded in HTML and JSON files are rewritten to the
+ * target's URLs and metadata.json records the new provider. Source files
+ * are left in place; a failed portfolio is reported and the rest continue.
+ */
+export async function migrateStorage(
+  source: StorageProvider,
+  target: StorageProvider,
+  options: MigrateStorageOptions = {}
+): Promise<StorageMigrationReport> {
+  const byPortfolio = new Map<string, string[]>();
+  for (const path of await source.list("portfolios/")) {
+    const id = path.split("/")[1];
+    if (!isPortfolioId(id)) continue;
+    byPortfolio.set(id, [...(byPortfolio.get(id) || []), path]);
+  }
+
+  const portfolios: PortfolioMigrationResult[] = [];
+  for (const [id, paths] of Array.from(byPortfolio)) {
+    try {
+      portfolios.push(await migratePortfolio(source, target, id, paths, options));
+    } catch (error: any) {
+      console.error(`Failed to migrate portfolio ${id}:`, error);
+      portfolios.push({ id, status: "failed", files: paths.length, rewrittenUrls: 0, error: error.message });
+    }
+  }
+
+  const count = (status: PortfolioMigrationResult["status"]) => portfolios.filter((result) => result.status === status).length;
+  return {
+    source: source.getName(),
+    target: target.getName(),
+    dryRun: !!options.dryRun,
+    portfolios,
+    totals: {
+      migrated: count("migrated"),
+      skipped: count("skipped"),
+      failed: count("failed"),
+      files: portfolios.reduce((total, result) => total + (result.status === "migrated" ? result.files : 0), 0),
+      rewrittenUrls: portfolios.reduce((total, result) => total + result.rewrittenUrls, 0),
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import type { StorageProvider } from "@/lib/storage";
+import type { ResumeData } from "@/lib/resume";
+import { GenerationError } from "./errors";
+import { publishPortfolio, versionPrefix } from "./save-portfolio";
+import { GeneratePortfolioResult, PromotePortfolioVersionInput } from "./types";
+
+/**
+ * Makes an earlier version the current one by copying its HTML and resume
+ * data back to the stable portfolio URL. No model calls are made.
+ */
+export async function promotePortfolioVersion(
+  { metadata, version }: PromotePortfolioVersionInput,
+  storageProvider: StorageProvider
+): Promise<GeneratePortfolioResult> {
+  const entry = (metadata.versions || []).find((candidate) => candidate.version === version);
+  if (!entry) {
+    throw new GenerationError(`Version ${version} does not exist.`, 404);
+  }
+
+  const prefix = versionPrefix(metadata.id, version);
+  const html = (await storageProvider.readFile(`${prefix}/index.html`)).toString("utf-8");
+  const resumeData = await storageProvider.readJSON<ResumeData>(`${prefix}/resume.json`);
+
+  const updatedMetadata = {
+    ...metadata,
+    updatedAt: new Date().toISOString(),
+    template: entry.template,
+    currentVersion: version,
+  };
+  const files = await publishPortfolio(storageProvider, html, resumeData, updatedMetadata);
+
+  return { id: metadata.id, url: files.htmlUrl, files, metadata: updatedMetadata };
+}
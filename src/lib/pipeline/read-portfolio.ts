@@ -0,0 +1,84 @@
+import { isPortfolioOwner } from "@/lib/accounts";
+import type { RequestOwner } from "@/lib/accounts";
+import type { StorageProvider } from "@/lib/storage";
+import { StorageNotFoundError } from "@/lib/storage";
+import type { ResumeData } from "@/lib/resume";
+import { GenerationError } from "./errors";
+import { portfolioPrefix, versionPrefix } from "./save-portfolio";
+import { PortfolioMetadata } from "./types";
+
+// Portfolio ids are UUIDs; anything else could point outside portfolios/
+const PORTFOLIO_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isPortfolioId = (id: string) => PORTFOLIO_ID_PATTERN.test(id);
+
+// The current version and every saved version: portfolios/{id}/index.html, portfolios/{id}/versions/{n}/index.html
+const PORTFOLIO_HTML_PATH_PATTERN = /^portfolios\/([^/]+)\/(?:versions\/[1-9]\d*\/)?index\.html$/;
+
+export const isPortfolioHtmlPath = (path: string) => {
+  const match = path.match(PORTFOLIO_HTML_PATH_PATTERN);
+  return match !== null && isPortfolioId(match[1]);
+};
+
+export const portfolioHtmlPath = (id: string, version?: number) =>
+  `${version === undefined ? portfolioPrefix(id) : versionPrefix(id, version)}/index.html`;
+
+const readStored = async <T>(storageProvider: StorageProvider, id: string, path: string): Promise<T> => {
+  if (!isPortfolioId(id)) {
+    throw new GenerationError("Portfolio not found.", 404);
+  }
+  try {
+    return await storageProvider.readJSON<T>(path);
+  } catch (error) {
+    if (error instanceof StorageNotFoundError) {
+      throw new GenerationError("This portfolio was created before editing was available.", 404);
+    }
+    throw error;
+  }
+};
+
+export async function readPortfolioMetadata(storageProvider: StorageProvider, id: string): Promise<PortfolioMetadata> {
+  return readStored<PortfolioMetadata>(storageProvider, id, `${portfolioPrefix(id)}/metadata.json`);
+}
+
+/**
+ * Reads metadata.json for a request that manages the portfolio. Ownership
+ * comes from the owner record in the key-value store, not the history
+ * list, so it holds for portfolios that have dropped out of the history.
+ * Portfolios owned by someone else are reported as not found.
+ */
+export async function readOwnedPortfolioMetadata(
+  storageProvider: StorageProvider,
+  id: string,
+  owner: RequestOwner
+): Promise<PortfolioMetadata> {
+  if (!isPortfolioId(id) || !(await isPortfolioOwner(id, owner))) {
+    throw new GenerationError("Portfolio not found.", 404);
+  }
+  return readPortfolioMetadata(storageProvider, id);
+}
+
+// HTML of the current version
+export async function readPortfolioHtml(storageProvider: StorageProvider, id: string): Promise<string> {
+  return (await readPortfolioHtmlFile(storageProvider, portfolioHtmlPath(id))).toString("utf-8");
+}
+
+// HTML of the current version or of a saved version; any other path is refused
+export async function readPortfolioHtmlFile(storageProvider: StorageProvider, path: string): Promise<Buffer> {
+  if (!isPortfolioHtmlPath(path)) {
+    throw new GenerationError("Portfolio not found.", 404);
+  }
+  try {
+    return await storageProvider.readFile(path);
+  } catch (error) {
+    if (error instanceof StorageNotFoundError) {
+      throw new GenerationError("Portfolio not found.", 404);
+    }
+    throw error;
+  }
+}
+
+// Structured data of the current version
+export async function readPortfolioResume(storageProvider: StorageProvider, id: string): Promise<ResumeData> {
+  return readStored<ResumeData>(storageProvider, id, `${portfolioPrefix(id)}/resume.json`);
+}
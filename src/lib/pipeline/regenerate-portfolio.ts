@@ -0,0 +1,40 @@
+import { summarizeUsage, toStageUsage } from "@/lib/ai";
+import type { StageUsage } from "@/lib/ai";
+import { generatePortfolioHtml } from "./generate-html";
+import { savePortfolioVersion } from "./save-portfolio";
+import { GeneratePortfolioOptions, GeneratePortfolioResult, RegeneratePortfolioInput } from "./types";
+
+/**
+ * Regenerates the HTML of an existing portfolio from edited structured data,
+ * skipping extraction, classification and structuring. The result is stored
+ * as a new version of the same portfolio and becomes the current version.
+ */
+export async function regeneratePortfolio(
+  { metadata, resumeData, mode, promptVersion: requestedPromptVersion }: RegeneratePortfolioInput,
+  { aiProviders, storageProvider, onProgress }: GeneratePortfolioOptions
+): Promise<GeneratePortfolioResult> {
+  const usageCalls: StageUsage[] = [];
+  const { html, promptSeed, renderer, provider, promptVersion, quality } = await generatePortfolioHtml(aiProviders.generation, resumeData, {
+    template: metadata.template,
+    uploadedImageUrl: metadata.imageUrl,
+    promptVersion: requestedPromptVersion,
+    mode,
+    onProgress,
+    onUsage: (usage) => usageCalls.push(toStageUsage("generation", usage)),
+  });
+  const usage = summarizeUsage(usageCalls);
+
+  const { files, metadata: updatedMetadata } = await savePortfolioVersion(storageProvider, html, resumeData, metadata, {
+    template: metadata.template,
+    provider,
+    renderer,
+    promptSeed,
+    promptVersion,
+    quality,
+    providers: { generation: provider },
+    usage,
+  });
+  onProgress?.({ stage: "stored", id: metadata.id, url: files.htmlUrl });
+
+  return { id: metadata.id, url: files.htmlUrl, files, metadata: updatedMetadata, renderer, usage };
+}
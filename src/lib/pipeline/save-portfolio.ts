@@ -0,0 +1,64 @@
+import type { StorageProvider, PortfolioFiles } from "@/lib/storage";
+import type { ResumeData } from "@/lib/resume";
+import { PortfolioMetadata, PortfolioVersion } from "./types";
+
+export const portfolioPrefix = (id: string) => `portfolios/${id}`;
+export const versionPrefix = (id: string, version: number) => `${portfolioPrefix(id)}/versions/${version}`;
+
+export type NewPortfolioVersion = Omit<PortfolioVersion, "version" | "createdAt" | "htmlUrl" | "resumeUrl">;
+
+/**
+ * Writes the HTML and structured resume data as the current copy under
+ * `portfolios/{id}` (the stable URL) and saves metadata.json.
+ */
+export async function publishPortfolio(
+  storageProvider: StorageProvider,
+  html: string,
+  resumeData: ResumeData,
+  metadata: PortfolioMetadata
+): Promise<PortfolioFiles> {
+  const prefix = portfolioPrefix(metadata.id);
+
+  const htmlUrl = await storageProvider.uploadFile(`${prefix}/index.html`, html, "text/html");
+  const resumeUrl = await storageProvider.uploadJSON(`${prefix}/resume.json`, resumeData);
+  const metadataUrl = await storageProvider.uploadJSON(`${prefix}/metadata.json`, metadata);
+
+  return { htmlUrl, resumeUrl, metadataUrl, imageUrl: metadata.imageUrl };
+}
+
+// Rewrites metadata.json alone, for changes that do not produce a new version
+export async function savePortfolioMetadata(storageProvider: StorageProvider, metadata: PortfolioMetadata): Promise<string> {
+  return storageProvider.uploadJSON(`${portfolioPrefix(metadata.id)}/metadata.json`, metadata);
+}
+
+/**
+ * Stores the HTML and resume data as the next numbered version under
+ * `portfolios/{id}/versions/{n}` and publishes it as the current version.
+ */
+export async function savePortfolioVersion(
+  storageProvider: StorageProvider,
+  html: string,
+  resumeData: ResumeData,
+  metadata: PortfolioMetadata,
+  details: NewPortfolioVersion
+): Promise<{ files: PortfolioFiles; metadata: PortfolioMetadata }> {
+  const versions = metadata.versions || [];
+  const version = versions.reduce((latest, entry) => Math.max(latest, entry.version), 0) + 1;
+  const prefix = versionPrefix(metadata.id, version);
+  const now = new Date().toISOString();
+
+  const htmlUrl = await storageProvider.uploadFile(`${prefix}/index.html`, html, "text/html");
+  const resumeUrl = await storageProvider.uploadJSON(`${prefix}/resume.json`, resumeData);
+
+  const updatedMetadata: PortfolioMetadata = {
+    ...metadata,
+    updatedAt: now,
+    template: details.template,
+    currentVersion: version,
+    versions: [...versions, { version, createdAt: now, ...details, htmlUrl, resumeUrl }],
+    storageProvider: storageProvider.getName(),
+  };
+  const files = await publishPortfolio(storageProvider, html, resumeData, updatedMetadata);
+
+  return { files, metadata: updatedMetadata };
+}
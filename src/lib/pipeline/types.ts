@@ -0,0 +1,127 @@
+import type { AIProviderSet, AIStage, UsageSummary } from "@/lib/ai";
+import type { StorageProvider, PortfolioFiles } from "@/lib/storage";
+import type { ResumeData } from "@/lib/resume";
+import type { InputFinding } from "@/lib/input-guard";
+import type { QualityIssue } from "@/lib/quality";
+
+// "ai" lets the model design the page; "fast" uses the built-in renderer without a model call
+export type GenerationMode = "ai" | "fast";
+
+export type PortfolioRenderer = "ai" | "builtin";
+
+export interface ProfileImage {
+  buffer: Buffer;
+  extension: string;
+  contentType: string;
+}
+
+export interface GeneratePortfolioInput {
+  fileBuffer: Buffer;
+  fileName: string;
+  mimeType?: string;
+  template: string;
+  image?: ProfileImage;
+  mode?: GenerationMode;
+  promptVersion?: string; // Prompt set to use, defaults to PROMPT_VERSION or the latest
+}
+
+export interface GeneratePortfolioResult {
+  id: string;
+  url: string; // Stable URL of the current version
+  files: PortfolioFiles;
+  metadata: PortfolioMetadata;
+  renderer?: PortfolioRenderer; // How the HTML was produced, set when a new version was generated
+  usage?: UsageSummary; // Model usage of this request, set when a new version was generated
+}
+
+export interface RegeneratePortfolioInput {
+  metadata: PortfolioMetadata; // Current metadata.json of the portfolio being edited
+  resumeData: ResumeData;
+  mode?: GenerationMode;
+  promptVersion?: string;
+}
+
+export interface PromotePortfolioVersionInput {
+  metadata: PortfolioMetadata;
+  version: number;
+}
+
+// Result of the generated-HTML quality check for a stored version
+export interface PortfolioQuality {
+  passed: boolean;
+  attempts: number; // AI generations tried; 0 when the built-in renderer was used directly
+  issues: QualityIssue[]; // Issues of the stored HTML; errors only remain when the built-in renderer's page failed too
+}
+
+// Provider that actually served each AI step, after retries and failover
+export type StageProviders = Partial<Record<AIStage, string>>;
+
+export interface PortfolioVersion {
+  version: number;
+  createdAt: string;
+  template: string;
+  provider: string; // AI provider that generated the HTML
+  renderer?: PortfolioRenderer; // Absent on versions created before the built-in renderer existed
+  promptSeed: string; // Empty for the built-in renderer
+  promptVersion?: string; // Prompt set the version was generated with; absent on older versions
+  providers?: StageProviders; // Classification and structuring only run for the first version
+  usage?: UsageSummary; // Tokens, latency and cost of the model calls that produced this version
+  quality?: PortfolioQuality; // Absent on versions created before the quality check existed
+  htmlUrl: string;
+  resumeUrl: string;
+}
+
+export interface PortfolioMetadata {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  template: string; // Template of the current version
+  currentVersion: number;
+  versions: PortfolioVersion[];
+  assets: string[];
+  hasImage: boolean;
+  imageUrl?: string;
+  fileName: string;
+  sourceFormat?: string; // Label of the uploaded document format, e.g. "PDF" or "JSON Resume"
+  slug?: string; // Custom URL, served at /p/{slug}
+  inputFindings?: InputFinding[]; // Instruction-like or hidden text found in the upload; removed before prompting unless the upload was already structured
+  storageProvider: string;
+}
+
+export interface MigrateStorageOptions {
+  dryRun?: boolean; // Report what would be copied and rewritten without writing anything
+  overwrite?: boolean; // Copy portfolios that already have metadata.json in the target; skipped otherwise
+  onMigrated?: (metadata: PortfolioMetadata, files: PortfolioFiles) => Promise<void>; // Called after each portfolio is copied
+}
+
+export interface PortfolioMigrationResult {
+  id: string;
+  status: "migrated" | "skipped" | "failed"; // "migrated" on a dry run means it would be migrated
+  files: number;
+  rewrittenUrls: number; // Stored URLs replaced in HTML and JSON files
+  url?: string; // URL of the current version in the target
+  error?: string;
+}
+
+export interface StorageMigrationReport {
+  source: string;
+  target: string;
+  dryRun: boolean;
+  portfolios: PortfolioMigrationResult[];
+  totals: { migrated: number; skipped: number; failed: number; files: number; rewrittenUrls: number };
+}
+
+export type GenerationEvent =
+  | { stage: "parsed"; pageCount?: number; characters: number }
+  | { stage: "validated" }
+  | { stage: "structured" }
+  | { stage: "generating"; tokens: number; attempt?: number } // Approximate tokens received so far; attempt is set on retries
+  | { stage: "stored"; id: string; url: string };
+
+export type GenerationStage = GenerationEvent["stage"];
+
+export interface GeneratePortfolioOptions {
+  aiProviders: AIProviderSet; // Provider for each AI step, see AIProviderFactory.getStageProviders()
+  storageProvider: StorageProvider;
+  onProgress?: (event: GenerationEvent) => void;
+}
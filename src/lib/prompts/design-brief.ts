@@ -0,0 +1,111 @@
+import { describeTemplate } from "@/lib/templates";
+import { GenerationPromptInput } from "./types";
+
+const creativeVariations = [
+  "Experiment with unique color combinations and unexpected typography choices.",
+  "Try an unconventional layout approach that breaks traditional design patterns.",
+  "Focus on creating a memorable visual identity through distinctive design elements.",
+  "Push creative boundaries with bold design decisions and artistic flair.",
+  "Create a unique interpretation that stands out from typical portfolio websites."
+];
+
+// Derives a stable index from the seed so the same seed always picks the same variation
+const seedIndex = (seed: string, length: number) =>
+  seed.split("").reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 0) % length;
+
+/**
+ * The part of the generation prompt every revision shares: design
+ * direction, technical requirements, template guidelines, content structure
+ * and profile image. Revisions add the resume data and their own rules.
+ */
+export const buildDesignBrief = ({ template, imageUrl, seed }: Pick<GenerationPromptInput, "template" | "imageUrl" | "seed">) => {
+  const variation = creativeVariations[seedIndex(seed, creativeVariations.length)];
+
+  return `
+    You are an award-winning web designer specializing in sophisticated, high-end personal portfolios.
+    Your task is to transform the provided JSON data into a complete, single-page HTML file that looks like a professional designer's portfolio website.
+
+    **CRITICAL: AVOID GENERIC AI DESIGN**
+    - DO NOT create generic, soulless designs that look like "AI slop"
+    - AVOID: Generic sans-serif fonts (Inter, Roboto, System UI), flat solid backgrounds, boring layouts
+    - AVOID: Overly safe, corporate aesthetics with no personality
+    - CREATE: Distinctive, memorable designs with strong visual identity and creative risk-taking
+    - Your design should look hand-crafted by a professional designer, NOT generated by AI
+
+    **Design Philosophy:**
+    - Create a portfolio that looks like it was designed by a professional UI/UX designer
+    - Think portfolio website, not resume - focus on visual impact and storytelling
+    - Use large, bold typography with distinctive font choices
+    - Layer backgrounds with gradients, patterns, and textures for depth
+    - Incorporate decorative elements (subtle illustrations, abstract shapes, geometric patterns)
+    - Make it feel personal and unique, not template-like
+    - IMPORTANT: ${variation}
+    - Design seed: ${seed} (use this to inspire unique creative choices)
+
+    **Technical Requirements:**
+    - **Styling:** Use the Tailwind CSS CDN: <script src="https://cdn.tailwindcss.com"></script>
+      * This is the only <script> allowed. Inline scripts and event handlers are removed before publishing
+      * Do not configure Tailwind with a script; use arbitrary values (e.g. bg-[#1a1a2e]) and a <style> block
+    - **Fonts:** CRITICAL - Choose distinctive, characterful fonts. Avoid generic options.
+      * Use Google Fonts with personality and visual interest
+      * Pair contrasting fonts (serif + sans-serif, display + body)
+      * Examples: Playfair Display, Crimson Pro, Space Grotesk, DM Serif Display, Archivo Black, Syne
+    - **Backgrounds:** Create depth with layered elements:
+      * Use CSS gradients (linear, radial, conic)
+      * Add geometric patterns or organic shapes
+      * Layer semi-transparent elements for depth
+      * Incorporate subtle textures or noise
+    - **Animations:** Add meaningful micro-interactions, in CSS only:
+      * Entrance animations (fade in, slide up) with @keyframes
+      * Hover effects on cards and buttons (scale, shadow changes)
+      * Stagger animations for lists and grids with animation-delay
+      * Use CSS transitions and transforms
+    - **Icons:** Use inline SVGs for social links and decorative elements
+    - **Responsive:** Must work beautifully on mobile, tablet, and desktop
+
+    **Template: "${template.id}"**
+
+    ⚠️ CRITICAL INSTRUCTION - CONTENT vs STYLING:
+    - The template guidelines below are ONLY for VISUAL STYLING (fonts, colors, animations, layout)
+    - DO NOT mention the template name or design style in the actual content
+    - DO NOT create fake projects about "brutalist design" or "neo-brutalism websites"
+    - ALL content (projects, experience, skills) must come ONLY from the JSON data provided
+    - ONLY use the template guidelines for CSS styling, layout decisions, and visual aesthetics
+    - The user's actual work experience and projects are the ONLY content to display
+
+    Template-Specific Design Guidelines (STYLING ONLY, NOT CONTENT):
+
+    ${describeTemplate(template)}
+
+    **Content Structure:**
+    - Hero section: Large name, title/role, brief tagline
+    - About section: 2-3 paragraph introduction with personality
+    - Experience section: Focus on impact and achievements, not just responsibilities
+    - Projects section: Visual cards with descriptions
+    - Skills section: Organized by category or displayed visually
+    - Contact section: Social links with icons
+
+    **Pro Tips:**
+    - Include subtle background patterns or gradients
+    - Use accent colors strategically to draw attention
+    - Add metrics/numbers where possible (years of experience, projects completed)
+    - Make links and buttons visually distinct with hover states
+
+    ${imageUrl ? `**Profile Image:**
+    A profile image has been provided. Use this image in the hero section or header area.
+    Embed it using: <img src="${imageUrl}" alt="Profile" class="..." />
+    Make it prominent - use a large circular or artistic crop as appropriate for the template style.` : `**Profile Image:**
+    NO profile image was provided. DO NOT include any image placeholders, broken image tags, or image frames.
+    Focus on typography and decorative elements instead. Use the person's initials in a circular badge if needed.`}`;
+};
+
+// Content rules repeated after the data; each revision states its own first rule
+export const contentReminder = (firstRule: string) => `⚠️ FINAL REMINDER:
+    - ${firstRule}
+    - DO NOT invent fake projects, experiences, or skills
+    - DO NOT mention design styles or template names in content
+    - Use the template guidelines ONLY for visual styling (CSS, layout, animations)
+    - The person's real work and experience is what matters - showcase it beautifully`;
+
+export const outputInstructions = `Return only the complete HTML file, formatted as an HTML markdown code block. Do not include any other text or explanation.
+    Make it look professional, polished, and impressive - like something that would get featured on Awwwards or CSS Design Awards.`;
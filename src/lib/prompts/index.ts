@@ -0,0 +1,8 @@
+export { promptSets, defaultPromptVersion, getPromptSet, isPromptVersion, isActivePromptVersion } from "./registry";
+export type {
+  PromptSet,
+  ClassificationPromptInput,
+  ClassificationResult,
+  StructuringPromptInput,
+  GenerationPromptInput,
+} from "./types";
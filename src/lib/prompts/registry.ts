@@ -0,0 +1,22 @@
+import { PromptSet } from "./types";
+import { v1 } from "./v1";
+import { v2 } from "./v2";
+
+// Every revision stays registered so older versions can be regenerated and compared
+export const promptSets: PromptSet[] = [v1, v2];
+
+// PROMPT_VERSION selects the default revision; the latest one is used otherwise. Replay-only sets are refused when generating
+export const defaultPromptVersion = process.env.PROMPT_VERSION || promptSets[promptSets.length - 1].version;
+
+export function getPromptSet(version: string = defaultPromptVersion): PromptSet | undefined {
+  return promptSets.find((promptSet) => promptSet.version === version);
+}
+
+export function isPromptVersion(version: unknown): version is string {
+  return typeof version === "string" && promptSets.some((promptSet) => promptSet.version === version);
+}
+
+// Versions new generations and edits may use; replay-only sets are excluded
+export function isActivePromptVersion(version: unknown): version is string {
+  return isPromptVersion(version) && !getPromptSet(version)?.replayOnly;
+}
@@ -0,0 +1,39 @@
+import type { ResumeData } from "@/lib/resume";
+import type { PortfolioTemplate } from "@/lib/templates";
+
+export interface ClassificationPromptInput {
+  text: string; // Extracted document text
+}
+
+// Parsed classifier answer; confidence is 0-1
+export interface ClassificationResult {
+  isResume: boolean;
+  confidence: number;
+  reason?: string;
+}
+
+export interface StructuringPromptInput {
+  text: string;
+}
+
+export interface GenerationPromptInput {
+  data: ResumeData;
+  template: PortfolioTemplate;
+  imageUrl?: string;
+  seed: string; // Recorded per version so the creative direction can be reproduced
+  previousIssues?: string[]; // Why the previous attempt failed the quality check; ignored by v1
+}
+
+/**
+ * One revision of every prompt the pipeline sends. Builders are pure
+ * functions of their input so revisions can be compared side by side.
+ */
+export interface PromptSet {
+  version: string;
+  description: string;
+  replayOnly?: boolean; // Kept to describe and compare older versions; new generations refuse it
+  buildClassificationPrompt(input: ClassificationPromptInput): string;
+  parseClassification(response: string): ClassificationResult | null; // null when the answer is not in the requested format
+  buildStructuringPrompt(input: StructuringPromptInput): string;
+  buildGenerationPrompt(input: GenerationPromptInput): string;
+}
@@ -0,0 +1,31 @@
+import { ClassificationPromptInput, ClassificationResult } from "../types";
+
+export const buildClassificationPrompt = ({ text }: ClassificationPromptInput) => `
+    You are a document classifier. Analyze the following text and determine if it is a resume/CV or not.
+    
+    A resume/CV typically contains:
+    - Personal information (name, contact details)
+    - Work experience or employment history
+    - Education history
+    - Skills or competencies
+    - Professional summary or objective
+    
+    If this document is clearly NOT a resume (e.g., it's a research paper, book, article, manual, legal document, financial report, etc.), respond with exactly:
+    NOT_A_RESUME
+    
+    If this document IS a resume or CV (even if incomplete or poorly formatted), respond with exactly:
+    VALID_RESUME
+    
+    Document text:
+    ---
+    ${text.slice(0, 2000)}
+    ---
+    
+    Your response (only "NOT_A_RESUME" or "VALID_RESUME"):
+  `;
+
+// Anything other than the VALID_RESUME token is treated as "not a resume"; the token carries no confidence
+export const parseClassification = (response: string): ClassificationResult => ({
+  isResume: response.trim().includes("VALID_RESUME"),
+  confidence: 1,
+});
@@ -0,0 +1,14 @@
+import { GenerationPromptInput } from "../types";
+import { buildDesignBrief, contentReminder, outputInstructions } from "../design-brief";
+
+export const buildGenerationPrompt = ({ data, template, imageUrl, seed }: GenerationPromptInput) => `${buildDesignBrief({ template, imageUrl, seed })}
+
+    JSON data (USE THIS AS YOUR ONLY SOURCE OF CONTENT):
+    ---
+    ${JSON.stringify(data, null, 2)}
+    ---
+
+    ${contentReminder("Display ONLY the information from the JSON data above")}
+
+    ${outputInstructions}
+  `;
@@ -0,0 +1,15 @@
+import { PromptSet } from "../types";
+import { buildClassificationPrompt, parseClassification } from "./classification";
+import { buildStructuringPrompt } from "./structuring";
+import { buildGenerationPrompt } from "./generation";
+
+export const v1: PromptSet = {
+  version: "v1",
+  description: "Original prompts: token classifier, JSON structuring and free-form designer brief",
+  // The token classifier and undelimited document text would skip the injection hardening of later sets
+  replayOnly: true,
+  buildClassificationPrompt,
+  parseClassification,
+  buildStructuringPrompt,
+  buildGenerationPrompt,
+};
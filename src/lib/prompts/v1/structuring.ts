@@ -0,0 +1,19 @@
+import { StructuringPromptInput } from "../types";
+
+export const buildStructuringPrompt = ({ text }: StructuringPromptInput) => `
+    You are an expert data analyst. Analyze the following resume text and extract the information into a structured JSON object.
+    The JSON should have the following keys: "personalInfo", "summary", "workExperience", "education", "skills", "projects".
+    - "personalInfo": should contain "name", "email", "phone", "linkedin", "github".
+    - "workExperience": should be an array of objects, each with "company", "role", "dates", and "responsibilities" (as an array of strings).
+    - "education": should be an array of objects, each with "institution", "degree", and "dates".
+    - "skills": should be an array of strings.
+    - "projects": should be an array of objects, each with "name", "description", and "technologies" (as an array of strings).
+    If a section is not present, return an empty array or object for that key.
+
+    Resume text:
+    ---
+    ${text}
+    ---
+
+    Return only the JSON object, formatted as a JSON markdown code block.
+  `;
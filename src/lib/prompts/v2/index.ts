@@ -0,0 +1,13 @@
+import { PromptSet } from "../types";
+import { buildClassificationPrompt, parseClassification } from "./classification";
+import { buildStructuringPrompt } from "./structuring";
+import { buildGenerationPrompt } from "./generation";
+
+export const v2: PromptSet = {
+  version: "v2",
+  description: "Hardened against prompt injection: delimited untrusted input and a JSON classifier with confidence",
+  buildClassificationPrompt,
+  parseClassification,
+  buildStructuringPrompt,
+  buildGenerationPrompt,
+};
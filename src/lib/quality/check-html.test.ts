@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import type { ResumeData } from "@/lib/resume";
+import { renderPortfolioHtml } from "@/lib/renderer";
+import { templates } from "@/lib/templates";
+import { checkPortfolioHtml } from "./check-html";
+
+const data: ResumeData = {
+  personalInfo: {
+    name: "Alex Morgan",
+    email: "alex.morgan@mail.test",
+    phone: "+1 555 0100",
+    linkedin: "https://www.linkedin.com/in/alexmorgan",
+    github: "https://github.com/alexmorgan",
+  },
+  summary: "Backend engineer focused on reliable billing platforms and developer tooling for growing teams.",
+  workExperience: [
+    {
+      company: "Northwind Labs",
+      role: "Senior Software Engineer",
+      dates: "2021 - Present",
+      responsibilities: ["Led the rewrite of the billing platform"],
+    },
+  ],
+  education: [{ institution: "State University", degree: "B.Sc. Computer Science", dates: "2013 - 2017" }],
+  skills: ["TypeScript", "React", "PostgreSQL"],
+  projects: [{ name: "Trailhead", description: "Hiking route planner", technologies: ["React"] }],
+};
+
+const page = (body: string) =>
+  `<!DOCTYPE html><html lang="en"><head><title>Alex Morgan</title></head><body>${body}</body></html>`;
+
+const completeBody = `
+  <h1>Alex Morgan</h1>
+  <p>Backend engineer focused on reliable billing platforms and developer tooling for growing teams.</p>
+  <a href="mailto:alex.morgan@mail.test">Email</a>
+  <h2>Experience</h2><p>Senior Software Engineer, Northwind Labs</p>
+  <h2>Education</h2><p>State University</p>
+  <h2>Projects</h2><p>Trailhead</p>
+  <h2>Skills</h2><p>TypeScript React PostgreSQL</p>`;
+
+const errorsOf = (html: string) =>
+  checkPortfolioHtml(html, data).issues.filter((issue) => issue.severity === "error");
+
+describe("checkPortfolioHtml", () => {
+  it.each(templates.map((template) => [template.id, template] as const))("passes the built-in %s template", (_, template) => {
+    const report = checkPortfolioHtml(renderPortfolioHtml(data, template, { imageUrl: "/images/portrait.png" }), data);
+
+    expect(report.issues.filter((issue) => issue.severity === "error")).toEqual([]);
+    expect(report.passed).toBe(true);
+  });
+
+  it("passes a complete hand-written page", () => {
+    expect(checkPortfolioHtml(page(completeBody), data)).toEqual({ passed: true, issues: [] });
+  });
+
+  it("fails truncated documents", () => {
+    const truncated = page(completeBody).replace("</body></html>", "<section><div>");
+
+    expect(errorsOf(truncated).map((issue) => issue.check)).toContain("well-formed");
+  });
+
+  it("fails pages with a missing section", () => {
+    const errors = errorsOf(page(completeBody.replace(", Northwind Labs", "")));
+
+    expect(errors).toContainEqual(expect.objectContaining({ check: "sections", message: "The experience section is missing." }));
+  });
+
+  it("fails placeholder text that is not in the resume", () => {
+    const errors = errorsOf(page(`${completeBody}<p>Lorem ipsum dolor sit amet</p>`));
+
+    expect(errors).toContainEqual(expect.objectContaining({ check: "placeholders" }));
+  });
+
+  it("only warns about phrases that real pages also use", () => {
+    const report = checkPortfolioHtml(page(`${completeBody}<p>Case study coming soon. Launch date TBD.</p><a href="https://example.com">Demo</a>`), data);
+
+    expect(report.passed).toBe(true);
+    expect(report.issues.map((issue) => [issue.check, issue.severity])).toEqual([
+      ["placeholders", "warning"],
+      ["placeholders", "warning"],
+      ["placeholders", "warning"],
+    ]);
+  });
+
+  it("only warns about template-field wording in a normal contact section", () => {
+    const contact = "<h2>Contact</h2><p>Send me your email and I will get back to you.</p><label>Job Title</label>";
+    const report = checkPortfolioHtml(page(`${completeBody}${contact}`), data);
+
+    expect(report.passed).toBe(true);
+    expect(report.issues.every((issue) => issue.severity === "warning")).toBe(true);
+  });
+
+  it("fails all-caps template fields", () => {
+    const report = checkPortfolioHtml(page(`${completeBody}<p>YOUR NAME</p>`), data);
+
+    expect(report.passed).toBe(false);
+    expect(report.issues.filter((issue) => issue.check === "placeholders")).toEqual([
+      { check: "placeholders", severity: "error", message: 'Placeholder content (template field) found: "YOUR NAME".' },
+    ]);
+  });
+
+  it("accepts placeholder-like text that comes from the resume", () => {
+    const withProject = { ...data, projects: [{ name: "Project Name Generator", description: "", technologies: [] }] };
+    const html = page(completeBody.replace("<p>Trailhead</p>", "<p>Project Name Generator</p>"));
+
+    expect(checkPortfolioHtml(html, withProject).passed).toBe(true);
+  });
+
+  it("fails images without alt text and warns about heading gaps", () => {
+    const report = checkPortfolioHtml(page(`${completeBody}<img src="/portrait.png"><h4>Contact</h4>`), data);
+
+    expect(report.passed).toBe(false);
+    expect(report.issues).toContainEqual(expect.objectContaining({ check: "accessibility", severity: "error" }));
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ check: "accessibility", severity: "warning", message: expect.stringContaining("h2 to h4") })
+    );
+  });
+
+  it("fails unreadable contrast", () => {
+    const errors = errorsOf(page(`${completeBody}<p style="color: #fff; background-color: #fefefe">Hidden</p>`));
+
+    expect(errors).toContainEqual(expect.objectContaining({ check: "accessibility", message: expect.stringContaining("Low contrast") }));
+  });
+});
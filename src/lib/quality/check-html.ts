@@ -0,0 +1,297 @@
+import type { ResumeData } from "@/lib/resume";
+import { tokenizeHtml } from "@/lib/sanitizer";
+import type { HtmlToken } from "@/lib/sanitizer";
+import { contrastRatio, parseColor, tailwindColor } from "./contrast";
+import { QualityCheck, QualityIssue, QualityReport } from "./types";
+
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr",
+]);
+
+// Elements whose end tag HTML lets authors leave out; they are not counted as unclosed
+const OPTIONAL_END_ELEMENTS = new Set([
+  "html", "head", "body", "p", "li", "dt", "dd", "option", "optgroup", "tr", "td", "th", "thead", "tbody", "tfoot", "colgroup", "rt", "rp",
+]);
+
+// Text inside these elements is not shown to readers
+const HIDDEN_TEXT_ELEMENTS = new Set(["script", "style", "title", "template", "noscript"]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", rsquo: "'", lsquo: "'", ldquo: '"', rdquo: '"',
+  mdash: "-", ndash: "-", hellip: "...", middot: "·", bull: "•",
+};
+
+const decodeText = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase();
+    if (lower.startsWith("#x")) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith("#")) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return NAMED_ENTITIES[lower] ?? entity;
+  });
+
+// Lowercase words without accents or punctuation, so "Café-Bar, Inc." matches "cafe bar inc"
+const normalize = (text: string) =>
+  ` ${text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9+#]+/g, " ")
+    .trim()} `;
+
+const appearsIn = (haystack: string, needle: string) => {
+  const normalized = normalize(needle);
+  return normalized.trim() === "" || haystack.includes(normalized);
+};
+
+// Ambiguous phrases that real pages also use ("TBD" dates, "coming soon" projects, "send me your email") are only warnings
+const PLACEHOLDER_PATTERNS: { pattern: RegExp; label: string; severity: QualityIssue["severity"] }[] = [
+  { pattern: /lorem ipsum|dolor sit amet/i, label: "lorem ipsum", severity: "error" },
+  { pattern: /\b(?:YOUR|COMPANY|PROJECT|INSTITUTION|SCHOOL|JOB) (?:NAME|TITLE|EMAIL|ROLE)\b/, label: "template field", severity: "error" },
+  { pattern: /\b(?:your|company|project|institution|school|job) (?:name|title|email|role)\b/i, label: "template field", severity: "warning" },
+  { pattern: /\[(?:your|insert|add|company|project|name)[^\]]*\]/i, label: "bracketed field", severity: "error" },
+  { pattern: /\{\{[^}]*\}\}|\$\{[^}]*\}/, label: "template expression", severity: "error" },
+  { pattern: /\bplaceholder text\b/i, label: "unfinished text", severity: "error" },
+  { pattern: /\bcoming soon\b/i, label: "unfinished text", severity: "warning" },
+  { pattern: /\b(?:TODO|TBD)\b/, label: "unfinished text", severity: "warning" },
+  { pattern: /\b(?:john|jane) doe\b/i, label: "sample name", severity: "error" },
+  { pattern: /(?:via\.placeholder\.com|placehold\.(?:co|it)|placekitten\.com|picsum\.photos|dummyimage\.com)/i, label: "placeholder URL", severity: "error" },
+  { pattern: /\bexample\.(?:com|org)\b/i, label: "example URL", severity: "warning" },
+];
+
+interface ParsedPage {
+  text: string; // Normalized visible text, for matching resume data
+  rawText: string; // Visible text as written, for spotting placeholders
+  urls: string[]; // href and src values
+  headings: { level: number; text: string }[];
+  images: { src: string; alt: string | null }[];
+  lang: string | null;
+  colorPairs: { foreground: string; background: string; ratio: number }[];
+  structure: QualityIssue[];
+}
+
+const attributeOf = (token: Extract<HtmlToken, { type: "startTag" }>, name: string) =>
+  token.attributes.find((attribute) => attribute.name === name)?.value ?? null;
+
+// Foreground and background set on the same element, from an inline style or Tailwind classes
+const colorsOf = (token: Extract<HtmlToken, { type: "startTag" }>) => {
+  const style = attributeOf(token, "style") ?? "";
+  const classes = (attributeOf(token, "class") ?? "").split(/\s+/);
+  const declared = (property: RegExp) => style.match(property)?.[1];
+  const foreground =
+    parseColor(declared(/(?:^|;)\s*color\s*:\s*([^;!]+)/i) ?? "") ??
+    classes.map((name) => tailwindColor(name, "text")).find(Boolean) ??
+    null;
+  const background =
+    parseColor(declared(/(?:^|;)\s*background(?:-color)?\s*:\s*([^;!]+)/i) ?? "") ??
+    classes.map((name) => tailwindColor(name, "bg")).find(Boolean) ??
+    null;
+  return foreground && background ? { foreground, background } : null;
+};
+
+const parsePage = (html: string): ParsedPage => {
+  const page: ParsedPage = { text: "", rawText: "", urls: [], headings: [], images: [], lang: null, colorPairs: [], structure: [] };
+  const open: string[] = [];
+  const strayEndTags = new Set<string>();
+  const texts: string[] = [];
+  let heading: { level: number; parts: string[] } | null = null;
+
+  for (const token of tokenizeHtml(html)) {
+    if (token.type === "text") {
+      if (open.some((name) => HIDDEN_TEXT_ELEMENTS.has(name))) continue;
+      const text = decodeText(token.text);
+      texts.push(text);
+      heading?.parts.push(text);
+    } else if (token.type === "startTag") {
+      if (token.name === "html") page.lang = attributeOf(token, "lang");
+      for (const name of ["href", "src"]) {
+        const url = attributeOf(token, name);
+        if (url) page.urls.push(url);
+      }
+      if (token.name === "img") page.images.push({ src: attributeOf(token, "src") ?? "", alt: attributeOf(token, "alt") });
+      if (/^h[1-6]$/.test(token.name)) heading = { level: Number(token.name[1]), parts: [] };
+
+      const colors = colorsOf(token);
+      if (colors) {
+        page.colorPairs.push({
+          foreground: `rgb(${colors.foreground.join(", ")})`,
+          background: `rgb(${colors.background.join(", ")})`,
+          ratio: contrastRatio(colors.foreground, colors.background),
+        });
+      }
+      if (!VOID_ELEMENTS.has(token.name) && !token.selfClosing) open.push(token.name);
+    } else if (token.type === "endTag") {
+      if (heading && token.name === `h${heading.level}`) {
+        page.headings.push({ level: heading.level, text: heading.parts.join(" ").replace(/\s+/g, " ").trim() });
+        heading = null;
+      }
+      const index = open.lastIndexOf(token.name);
+      if (index === -1) {
+        strayEndTags.add(token.name);
+        continue;
+      }
+      const skipped = open.splice(index).slice(1).filter((name) => !OPTIONAL_END_ELEMENTS.has(name));
+      if (skipped.length > 0) {
+        page.structure.push({
+          check: "well-formed",
+          severity: "warning",
+          message: `<${skipped.join(">, <")}> not closed before </${token.name}>.`,
+        });
+      }
+    }
+  }
+
+  const unclosed = open.filter((name) => !OPTIONAL_END_ELEMENTS.has(name));
+  if (unclosed.length > 0) {
+    page.structure.push({
+      check: "well-formed",
+      severity: "error",
+      message: `The document ends with unclosed elements: <${unclosed.slice(-5).join(">, <")}>.`,
+    });
+  }
+  if (strayEndTags.size > 0) {
+    page.structure.push({
+      check: "well-formed",
+      severity: "warning",
+      message: `End tags without a matching start tag: </${Array.from(strayEndTags).join(">, </")}>.`,
+    });
+  }
+  page.rawText = texts.join(" ").replace(/\s+/g, " ");
+  page.text = normalize(page.rawText);
+  return page;
+};
+
+const checkWellFormed = (html: string, page: ParsedPage): QualityIssue[] => {
+  const issues: QualityIssue[] = [];
+  const trimmed = html.trim();
+  if (!/^(?:<!doctype html[^>]*>\s*)?<html[\s>]/i.test(trimmed)) {
+    issues.push({ check: "well-formed", severity: "error", message: "The document does not start with <!DOCTYPE html> or <html>." });
+  }
+  if (!/<\/html>$/i.test(trimmed)) {
+    issues.push({ check: "well-formed", severity: "error", message: "The document does not end with </html>; it looks truncated." });
+  }
+  if (!/<body[\s>]/i.test(trimmed)) {
+    issues.push({ check: "well-formed", severity: "error", message: "The document has no <body>." });
+  }
+  return [...issues, ...page.structure];
+};
+
+// Every section with data must show up: names verbatim, free text by its distinctive words
+const checkContent = (data: ResumeData, page: ParsedPage): QualityIssue[] => {
+  const issues: QualityIssue[] = [];
+  const missing = (check: QualityCheck, message: string, severity: QualityIssue["severity"] = "error") =>
+    issues.push({ check, severity, message });
+  const missingValues = (values: string[]) => values.filter((value) => value.trim() && !appearsIn(page.text, value));
+
+  const { name, email } = data.personalInfo;
+  if (name && !appearsIn(page.text, name)) missing("content", `The name "${name}" does not appear on the page.`);
+  if (email && !appearsIn(page.text, email) && !page.urls.some((url) => url.toLowerCase() === `mailto:${email.toLowerCase()}`)) {
+    missing("content", `The email address ${email} is not shown or linked.`, "warning");
+  }
+
+  // A section counts as missing when none of its entries appear, incomplete when only some do
+  const sections: [string, string, string[]][] = [
+    ["experience", "companies", data.workExperience.map((job) => job.company)],
+    ["education", "institutions", data.education.map((entry) => entry.institution)],
+    ["projects", "projects", data.projects.map((project) => project.name)],
+  ];
+  for (const [section, label, values] of sections) {
+    const expected = values.filter((value) => value.trim());
+    const absent = missingValues(expected);
+    if (expected.length > 0 && absent.length === expected.length) {
+      missing("sections", `The ${section} section is missing.`);
+    } else if (absent.length > 0) {
+      missing("content", `Missing ${label}: ${absent.join(", ")}.`);
+    }
+  }
+
+  const roles = missingValues(data.workExperience.map((job) => job.role));
+  if (roles.length > 0) missing("content", `Roles not shown verbatim: ${roles.join(", ")}.`, "warning");
+
+  const skills = data.skills.filter((skill) => skill.trim());
+  const missingSkills = missingValues(skills);
+  if (skills.length > 0 && missingSkills.length > skills.length / 2) {
+    missing("sections", `The skills section is missing or incomplete (${skills.length - missingSkills.length} of ${skills.length} skills shown).`);
+  }
+
+  // The summary may be rephrased, so only its longer words are looked for
+  const summaryWords = Array.from(new Set(normalize(data.summary).trim().split(" ").filter((word) => word.length >= 5)));
+  const shownWords = summaryWords.filter((word) => page.text.includes(` ${word} `));
+  if (summaryWords.length >= 3 && shownWords.length < summaryWords.length * 0.3) {
+    missing("sections", "The summary does not appear on the page.");
+  }
+
+  return issues;
+};
+
+// Placeholder text and URLs that are not part of the resume data itself
+const checkPlaceholders = (data: ResumeData, page: ParsedPage): QualityIssue[] => {
+  const dataText = JSON.stringify(data).toLowerCase();
+  const visible = `${page.rawText} ${page.urls.join(" ")}`;
+  const reported = new Set<string>(); // An all-caps field is an error; the same text is not warned about again
+  return PLACEHOLDER_PATTERNS.flatMap(({ pattern, label, severity }) => {
+    const match = visible.match(pattern)?.[0];
+    if (!match || reported.has(match) || dataText.includes(match.toLowerCase())) return [];
+    reported.add(match);
+    return [{ check: "placeholders" as const, severity, message: `Placeholder content (${label}) found: "${match}".` }];
+  });
+};
+
+const MIN_READABLE_CONTRAST = 2; // Below this, text is effectively invisible
+const MIN_AA_CONTRAST = 4.5;
+
+const checkAccessibility = (page: ParsedPage): QualityIssue[] => {
+  const issues: QualityIssue[] = [];
+
+  const withoutAlt = page.images.filter((image) => image.alt === null);
+  if (withoutAlt.length > 0) {
+    issues.push({ check: "accessibility", severity: "error", message: `${withoutAlt.length} image(s) without alt text.` });
+  }
+
+  if (!page.lang) {
+    issues.push({ check: "accessibility", severity: "warning", message: "<html> has no lang attribute." });
+  }
+
+  const levels = page.headings.map((heading) => heading.level);
+  if (!levels.includes(1)) {
+    issues.push({ check: "accessibility", severity: "warning", message: "The page has no <h1>." });
+  }
+  levels.forEach((level, index) => {
+    const previous = index === 0 ? 1 : levels[index - 1];
+    if (level > previous + 1) {
+      issues.push({
+        check: "accessibility",
+        severity: "warning",
+        message: `Heading level skips from h${previous} to h${level} at "${page.headings[index].text.slice(0, 40)}".`,
+      });
+    }
+  });
+
+  for (const { foreground, background, ratio } of page.colorPairs) {
+    if (ratio < MIN_AA_CONTRAST) {
+      issues.push({
+        check: "accessibility",
+        severity: ratio < MIN_READABLE_CONTRAST ? "error" : "warning",
+        message: `Low contrast ${ratio.toFixed(1)}:1 between ${foreground} text and ${background} background.`,
+      });
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Verifies a generated page against the resume data it was generated from:
+ * complete markup, every section and name from the data, no placeholder
+ * text and basic accessibility. Only errors fail the page; warnings are
+ * recorded for review.
+ */
+export function checkPortfolioHtml(html: string, data: ResumeData): QualityReport {
+  const page = parsePage(html);
+  const issues = [
+    ...checkWellFormed(html, page),
+    ...checkContent(data, page),
+    ...checkPlaceholders(data, page),
+    ...checkAccessibility(page),
+  ];
+  return { passed: !issues.some((issue) => issue.severity === "error"), issues };
+}
@@ -0,0 +1,63 @@
+// Approximate Tailwind colors for the classes generated pages use most for text and backgrounds
+const NAMED_COLORS: Record<string, string> = {
+  white: "#ffffff",
+  black: "#000000",
+};
+
+const NEUTRAL_SHADES: Record<string, string> = {
+  "50": "#fafafa",
+  "100": "#f4f4f5",
+  "200": "#e4e4e7",
+  "300": "#d4d4d8",
+  "400": "#a1a1aa",
+  "500": "#71717a",
+  "600": "#52525b",
+  "700": "#3f3f46",
+  "800": "#27272a",
+  "900": "#18181b",
+  "950": "#09090b",
+};
+
+const NEUTRAL_SCALES = new Set(["gray", "slate", "zinc", "neutral", "stone"]);
+
+type Rgb = [number, number, number];
+
+export const parseColor = (value: string): Rgb | null => {
+  const color = value.trim().toLowerCase();
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, (digit) => digit + digit) : hex[1];
+    return [0, 2, 4].map((offset) => parseInt(digits.slice(offset, offset + 2), 16)) as Rgb;
+  }
+  const rgb = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)\s*(?:[,/]\s*([\d.]+%?)\s*)?\)$/);
+  if (rgb) {
+    // Translucent colors depend on what is behind them
+    if (rgb[4] !== undefined && parseFloat(rgb[4]) < (rgb[4].endsWith("%") ? 100 : 1)) return null;
+    return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+  }
+  if (color === "white") return [255, 255, 255];
+  if (color === "black") return [0, 0, 0];
+  return null;
+};
+
+// Color of an unprefixed Tailwind utility such as text-white or bg-gray-900, when it is one we know
+export const tailwindColor = (className: string, prefix: "text" | "bg"): Rgb | null => {
+  const match = className.match(new RegExp(`^${prefix}-([a-z]+)(?:-(\\d{2,3}))?$`));
+  if (!match) return null;
+  const [, name, shade] = match;
+  const hex = shade ? (NEUTRAL_SCALES.has(name) ? NEUTRAL_SHADES[shade] : undefined) : NAMED_COLORS[name];
+  return hex ? parseColor(hex) : null;
+};
+
+const channel = (value: number) => {
+  const srgb = value / 255;
+  return srgb <= 0.03928 ? srgb / 12.92 : ((srgb + 0.055) / 1.055) ** 2.4;
+};
+
+const luminance = ([r, g, b]: Rgb) => 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+
+// WCAG contrast ratio, from 1 (identical) to 21 (black on white)
+export const contrastRatio = (foreground: Rgb, background: Rgb) => {
+  const [lighter, darker] = [luminance(foreground), luminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+};
@@ -0,0 +1,2 @@
+export { checkPortfolioHtml } from "./check-html";
+export type { QualityCheck, QualityIssue, QualityReport } from "./types";
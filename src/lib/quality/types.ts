@@ -0,0 +1,12 @@
+export type QualityCheck = "well-formed" | "sections" | "content" | "placeholders" | "accessibility";
+
+export interface QualityIssue {
+  check: QualityCheck;
+  severity: "error" | "warning"; // Errors fail the page; warnings are only recorded
+  message: string;
+}
+
+export interface QualityReport {
+  passed: boolean; // True when there are no errors
+  issues: QualityIssue[];
+}
@@ -0,0 +1,42 @@
+import { Ratelimit } from "@upstash/ratelimit";
+import { KVFactory, UpstashKVStore } from "@/lib/kv";
+import { KVRateLimiter } from "./kv-rate-limiter";
+import { RateLimiter, RateLimitOptions } from "./types";
+
+/**
+ * Rate limits on the default key-value store, created on first use. Upstash
+ * keeps using @upstash/ratelimit and its analytics; other stores count
+ * requests with KVRateLimiter.
+ */
+export function createRateLimiter(options: RateLimitOptions): RateLimiter {
+  let limiter: RateLimiter | undefined;
+
+  const resolve = (): RateLimiter => {
+    const store = KVFactory.getDefaultStore();
+    if (store instanceof UpstashKVStore) {
+      return new Ratelimit({
+        redis: store.client,
+        limiter: Ratelimit.slidingWindow(options.requests, `${options.windowSeconds} s`),
+        analytics: true,
+        prefix: options.prefix,
+      });
+    }
+    return new KVRateLimiter(store, options);
+  };
+
+  return {
+    limit: (identifier) => {
+      limiter ??= resolve();
+      return limiter.limit(identifier);
+    },
+  };
+}
+
+// Shared by every route that spends AI calls: 5 requests per 1 minute
+export const generationRatelimit = createRateLimiter({ requests: 5, windowSeconds: 60, prefix: "@upstash/ratelimit" });
+
+// Sign-in links sent per IP: 5 requests per 15 minutes
+export const signInRatelimit = createRateLimiter({ requests: 5, windowSeconds: 15 * 60, prefix: "@upstash/ratelimit/sign-in" });
+
+export { KVRateLimiter } from "./kv-rate-limiter";
+export type { RateLimiter, RateLimitOptions, RateLimitResult } from "./types";
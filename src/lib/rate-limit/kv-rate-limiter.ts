@@ -0,0 +1,32 @@
+import type { KVStore } from "@/lib/kv";
+import { RateLimiter, RateLimitOptions, RateLimitResult } from "./types";
+
+/**
+ * Approximates a sliding window with two fixed windows, like the Upstash
+ * sliding window: the previous window counts for the part of it that still
+ * overlaps the last `windowSeconds`. Works on any key-value store.
+ */
+export class KVRateLimiter implements RateLimiter {
+  private store: KVStore;
+  private options: RateLimitOptions;
+
+  constructor(store: KVStore, options: RateLimitOptions) {
+    this.store = store;
+    this.options = options;
+  }
+
+  async limit(identifier: string): Promise<RateLimitResult> {
+    const { requests, windowSeconds, prefix } = this.options;
+    const windowMs = windowSeconds * 1000;
+    const now = Date.now();
+    const window = Math.floor(now / windowMs);
+    const key = (index: number) => `${prefix}:${identifier}:${index}`;
+
+    // Counters live for two windows, long enough to serve as the previous window
+    const current = await this.store.increment(key(window), windowSeconds * 2);
+    const previous = (await this.store.get<number>(key(window - 1))) ?? 0;
+    const overlap = 1 - (now % windowMs) / windowMs;
+
+    return { success: previous * overlap + current <= requests };
+  }
+}
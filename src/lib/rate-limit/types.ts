@@ -0,0 +1,13 @@
+export interface RateLimitResult {
+  success: boolean;
+}
+
+export interface RateLimiter {
+  limit(identifier: string): Promise<RateLimitResult>;
+}
+
+export interface RateLimitOptions {
+  requests: number; // Allowed per window
+  windowSeconds: number;
+  prefix: string; // Key prefix, one per limiter
+}
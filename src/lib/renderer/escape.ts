@@ -0,0 +1,17 @@
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export const escapeHtml = (value: string) => value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+
+// Only http(s) and mailto/tel links are emitted; anything else becomes an inert "#"
+export const safeHref = (value: string) => {
+  const trimmed = value.trim();
+  if (/^(https?:|mailto:|tel:)/i.test(trimmed)) return escapeHtml(trimmed);
+  if (/^[\w.-]+\.[a-z]{2,}(\/|$)/i.test(trimmed)) return escapeHtml(`https://${trimmed}`);
+  return "#";
+};
@@ -0,0 +1,2 @@
+export { renderPortfolioHtml } from "./render-portfolio";
+export type { RenderPortfolioOptions } from "./render-portfolio";
@@ -0,0 +1,125 @@
+import type { ResumeData } from "@/lib/resume";
+import type { PortfolioTemplate } from "@/lib/templates";
+import { escapeHtml, safeHref } from "./escape";
+import { buildStyles, googleFontsUrl } from "./styles";
+
+export interface RenderPortfolioOptions {
+  imageUrl?: string;
+}
+
+const initialsOf = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+const tagList = (items: string[]) =>
+  items.length > 0 ? `<ul class="tags">${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>` : "";
+
+const renderContact = ({ personalInfo }: ResumeData) => {
+  const links = [
+    personalInfo.email && `<li><a href="mailto:${escapeHtml(personalInfo.email)}">${escapeHtml(personalInfo.email)}</a></li>`,
+    personalInfo.phone && `<li><a href="tel:${escapeHtml(personalInfo.phone.replace(/[^\d+]/g, ""))}">${escapeHtml(personalInfo.phone)}</a></li>`,
+    personalInfo.linkedin && `<li><a href="${safeHref(personalInfo.linkedin)}" rel="noopener">LinkedIn</a></li>`,
+    personalInfo.github && `<li><a href="${safeHref(personalInfo.github)}" rel="noopener">GitHub</a></li>`,
+  ].filter(Boolean);
+  return links.length > 0 ? `<ul class="contact">${links.join("")}</ul>` : "";
+};
+
+const renderHero = (data: ResumeData, template: PortfolioTemplate, imageUrl?: string) => {
+  const { name } = data.personalInfo;
+  const role = data.workExperience[0]?.role;
+  const portrait = imageUrl
+    ? `<img class="avatar" src="${escapeHtml(imageUrl)}" alt="${escapeHtml(name)}" />`
+    : `<div class="initials avatar-placeholder" aria-hidden="true">${escapeHtml(initialsOf(name))}</div>`;
+
+  return `
+    <header class="hero${template.rendering.layout === "centered" ? " centered" : ""}">
+      ${portrait}
+      <h1>${escapeHtml(name)}</h1>
+      ${role ? `<p class="role">${escapeHtml(role)}</p>` : ""}
+      ${data.summary ? `<p class="summary">${escapeHtml(data.summary)}</p>` : ""}
+      ${renderContact(data)}
+      ${template.rendering.layout === "sidebar" && data.skills.length > 0 ? `<section><h2>Skills</h2>${tagList(data.skills)}</section>` : ""}
+    </header>
+  `;
+};
+
+const renderExperience = ({ workExperience }: ResumeData, grid: boolean) => {
+  if (workExperience.length === 0) return "";
+  const cards = workExperience.map((job) => `
+    <article class="card">
+      <h3>${escapeHtml(job.role || job.company)}</h3>
+      <p class="meta">${escapeHtml([job.role ? job.company : "", job.dates].filter(Boolean).join(" · "))}</p>
+      ${job.responsibilities.length > 0 ? `<ul>${job.responsibilities.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>` : ""}
+    </article>
+  `).join("");
+  return `<section id="experience"><h2>Experience</h2>${grid ? `<div class="grid">${cards}</div>` : cards}</section>`;
+};
+
+const renderProjects = ({ projects }: ResumeData, grid: boolean) => {
+  if (projects.length === 0) return "";
+  const cards = projects.map((project) => `
+    <article class="card">
+      <h3>${escapeHtml(project.name)}</h3>
+      ${project.description ? `<p class="meta">${escapeHtml(project.description)}</p>` : ""}
+      ${tagList(project.technologies)}
+    </article>
+  `).join("");
+  return `<section id="projects"><h2>Projects</h2>${grid ? `<div class="grid">${cards}</div>` : cards}</section>`;
+};
+
+const renderEducation = ({ education }: ResumeData) => {
+  if (education.length === 0) return "";
+  const cards = education.map((entry) => `
+    <article class="card">
+      <h3>${escapeHtml(entry.institution)}</h3>
+      <p class="meta">${escapeHtml([entry.degree, entry.dates].filter(Boolean).join(" · "))}</p>
+    </article>
+  `).join("");
+  return `<section id="education"><h2>Education</h2>${cards}</section>`;
+};
+
+/**
+ * Renders a complete, self-contained portfolio page from structured resume
+ * data using the template's fonts, palette and rendering tokens. No model is
+ * called, so the output is deterministic for the same input.
+ */
+export function renderPortfolioHtml(
+  data: ResumeData,
+  template: PortfolioTemplate,
+  { imageUrl }: RenderPortfolioOptions = {}
+): string {
+  const { name } = data.personalInfo;
+  const grid = template.rendering.layout === "cards";
+  const description = data.summary || `${name} - portfolio`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(name)}</title>
+  <meta name="description" content="${escapeHtml(description.slice(0, 160))}" />
+  <link rel="preconnect" href="https://fonts.googleapis.com" />
+  <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin />
+  <link rel="stylesheet" href="${googleFontsUrl(template)}" />
+  <style>${buildStyles(template)}</style>
+</head>
+<body>
+  <div class="page">
+    ${renderHero(data, template, imageUrl)}
+    <main>
+      ${renderExperience(data, grid)}
+      ${renderProjects(data, grid)}
+      ${renderEducation(data)}
+      ${template.rendering.layout !== "sidebar" && data.skills.length > 0 ? `<section id="skills"><h2>Skills</h2>${tagList(data.skills)}</section>` : ""}
+    </main>
+  </div>
+  <footer>&copy; ${new Date().getFullYear()} ${escapeHtml(name)}</footer>
+</body>
+</html>
+`;
+}
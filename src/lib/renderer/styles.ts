@@ -0,0 +1,105 @@
+import type { PortfolioTemplate } from "@/lib/templates";
+
+export const googleFontsUrl = (template: PortfolioTemplate) => {
+  const { heading, body } = template.fonts[0];
+  const families = Array.from(new Set([heading, body]))
+    .map((family) => `family=${family.replace(/ /g, "+")}:wght@400;600;700;900`)
+    .join("&");
+  return `https://fonts.googleapis.com/css2?${families}&display=swap`;
+};
+
+const pageBackground = (template: PortfolioTemplate) => {
+  const { palette } = template;
+  if (palette.gradient && palette.gradient.length > 1) {
+    return `linear-gradient(135deg, ${palette.gradient.join(", ")}) fixed`;
+  }
+  return palette.background;
+};
+
+const layoutStyles: Record<PortfolioTemplate["rendering"]["layout"], string> = {
+  sidebar: `
+    .page { display: grid; grid-template-columns: 320px 1fr; gap: 4rem; max-width: 1200px; margin: 0 auto; padding: 4rem 2rem; }
+    .hero { position: sticky; top: 2rem; align-self: start; }
+    .hero h1 { font-size: 3rem; }
+    @media (max-width: 900px) { .page { grid-template-columns: 1fr; gap: 2rem; } .hero { position: static; } }
+  `,
+  cards: `
+    .page { max-width: 1100px; margin: 0 auto; padding: 4rem 1.5rem; }
+    .hero { padding: 3rem 0 4rem; }
+    .hero h1 { font-size: clamp(2.75rem, 7vw, 5.5rem); }
+    .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(300px, 1fr)); gap: 1.5rem; }
+  `,
+  centered: `
+    .page { max-width: 800px; margin: 0 auto; padding: 5rem 1.5rem; }
+    .hero { text-align: center; padding-bottom: 4rem; }
+    .hero h1 { font-size: clamp(3rem, 8vw, 6rem); }
+    .hero .avatar, .hero .contact { margin-left: auto; margin-right: auto; justify-content: center; }
+    section { margin-top: 5rem; }
+  `,
+};
+
+export const buildStyles = (template: PortfolioTemplate) => {
+  const { palette, rendering, fonts } = template;
+  const { heading, body } = fonts[0];
+
+  return `
+    :root {
+      --background: ${palette.background};
+      --surface: ${palette.surface};
+      --text: ${palette.text};
+      --muted: ${palette.mutedText};
+      --accent: ${palette.accent};
+      --border: ${palette.border};
+      --radius: ${rendering.radius};
+      --shadow: ${rendering.shadow};
+      --border-width: ${rendering.borderWidth};
+    }
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    html { scroll-behavior: smooth; }
+    body {
+      background: ${pageBackground(template)};
+      color: var(--text);
+      font-family: "${body}", Georgia, system-ui, sans-serif;
+      line-height: 1.65;
+      -webkit-font-smoothing: antialiased;
+    }
+    h1, h2, h3 { font-family: "${heading}", Georgia, system-ui, sans-serif; font-weight: ${rendering.headingWeight}; line-height: 1.1; }
+    h2 { font-size: 1.75rem; margin-bottom: 1.5rem; }
+    h2::after { content: ""; display: block; width: 3rem; height: 4px; margin-top: 0.75rem; background: var(--accent); }
+    .hero.centered h2::after { margin: 0.75rem auto 0; }
+    h3 { font-size: 1.2rem; }
+    a { color: var(--accent); text-decoration: none; }
+    a:hover { text-decoration: underline; }
+    section { margin-top: 3.5rem; }
+    .role { font-size: 1.25rem; color: var(--muted); margin-top: 0.75rem; }
+    .summary { margin-top: 1.5rem; font-size: 1.1rem; max-width: 60ch; }
+    .hero.centered .summary { margin-left: auto; margin-right: auto; }
+    .avatar { width: 140px; height: 140px; border-radius: 50%; object-fit: cover; margin-bottom: 1.5rem; border: var(--border-width) solid var(--border); box-shadow: var(--shadow); }
+    .initials { display: flex; align-items: center; justify-content: center; width: 96px; height: 96px; border-radius: 50%; margin-bottom: 1.5rem; background: var(--accent); color: var(--background); font-family: "${heading}", sans-serif; font-size: 2rem; font-weight: ${rendering.headingWeight}; }
+    .contact { display: flex; flex-wrap: wrap; gap: 0.5rem 1.25rem; margin-top: 1.5rem; list-style: none; }
+    .card {
+      background: var(--surface);
+      border: var(--border-width) solid var(--border);
+      border-radius: var(--radius);
+      box-shadow: var(--shadow);
+      padding: 1.5rem;
+      margin-bottom: 1.5rem;
+      transition: transform 0.2s ease, box-shadow 0.2s ease;
+      ${rendering.glass ? "backdrop-filter: blur(20px); -webkit-backdrop-filter: blur(20px);" : ""}
+    }
+    .grid .card { margin-bottom: 0; }
+    .card:hover { transform: translateY(-3px); }
+    .meta { color: var(--muted); font-size: 0.95rem; margin-top: 0.25rem; }
+    .card ul { margin: 0.75rem 0 0 1.25rem; }
+    .card li + li { margin-top: 0.35rem; }
+    .tags { display: flex; flex-wrap: wrap; gap: 0.5rem; list-style: none; margin-top: 0.75rem; }
+    .tags li { border: var(--border-width) solid var(--border); border-radius: 999px; padding: 0.2rem 0.8rem; font-size: 0.85rem; background: var(--surface); }
+    .card .tags { margin-left: 0; }
+    footer { margin-top: 5rem; color: var(--muted); font-size: 0.85rem; text-align: center; }
+    @media (prefers-reduced-motion: no-preference) {
+      section { animation: rise 0.6s ease both; }
+      @keyframes rise { from { opacity: 0; transform: translateY(16px); } to { opacity: 1; transform: none; } }
+    }
+    ${layoutStyles[rendering.layout]}
+  `;
+};
@@ -0,0 +1,6 @@
+export { validateResumeData, parseResumeJSON, cleanJSON } from "./validation";
+export { structureResume, ResumeStructuringError } from "./structure";
+export { fromJsonResume, toJsonResume, isJsonResume } from "./json-resume";
+export type { ResumeData, PersonalInfo, WorkExperience, Education, Project, ResumeValidationResult } from "./types";
+export type { JsonResume, JsonResumeProfile } from "./json-resume";
+export type { StructureResumeOptions } from "./structure";
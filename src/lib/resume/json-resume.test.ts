@@ -0,0 +1,89 @@
+import fs from "fs/promises";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { fromJsonResume, isJsonResume, JsonResume, toJsonResume } from "./json-resume";
+import { ResumeData } from "./types";
+
+const readFixture = async (): Promise<JsonResume> =>
+  JSON.parse(await fs.readFile(path.join(__dirname, "fixtures/json-resume.json"), "utf-8"));
+
+const minimalResume: ResumeData = {
+  personalInfo: { name: "Sam Lee", email: "", phone: "", linkedin: "", github: "" },
+  summary: "",
+  workExperience: [],
+  education: [],
+  skills: [],
+  projects: [],
+};
+
+describe("JSON Resume round trip", () => {
+  it("imports, exports and re-imports the fixture without losing data", async () => {
+    const imported = fromJsonResume(await readFixture());
+    expect(imported.errors).toEqual([]);
+
+    const exported = toJsonResume(imported.data);
+    expect(isJsonResume(exported)).toBe(true);
+    expect(fromJsonResume(exported)).toEqual(imported);
+  });
+
+  it("exports the fixture in the JSON Resume shape", async () => {
+    const exported = toJsonResume(fromJsonResume(await readFixture()).data);
+
+    expect(exported.basics).toEqual({
+      name: "Alex Morgan",
+      email: "alex.morgan@example.com",
+      phone: "+1 555 0100",
+      summary: "Full-stack engineer with eight years of experience building web products.",
+      profiles: [
+        { network: "LinkedIn", url: "https://linkedin.com/in/alexmorgan" },
+        { network: "GitHub", url: "https://github.com/alexmorgan" },
+      ],
+    });
+    expect(exported.work?.map(({ startDate, endDate }) => ({ startDate, endDate }))).toEqual([
+      { startDate: "2021-03", endDate: undefined },
+      { startDate: "2017-06-01", endDate: "2021-02-28" },
+    ]);
+    expect(exported.skills).toEqual([{ name: "TypeScript" }, { name: "Go" }, { name: "PostgreSQL" }]);
+  });
+
+  it("round-trips a resume with every optional section missing", () => {
+    const exported = toJsonResume(minimalResume);
+
+    expect(exported).toEqual({
+      basics: { name: "Sam Lee", email: undefined, phone: undefined, summary: undefined, profiles: [] },
+      work: [],
+      education: [],
+      skills: [],
+      projects: [],
+    });
+    expect(fromJsonResume(exported)).toEqual({ data: minimalResume, errors: [] });
+  });
+
+  it("normalizes free-form dates and leaves out the ones it cannot parse", () => {
+    const exported = toJsonResume({
+      ...minimalResume,
+      workExperience: [
+        { company: "Northwind Labs", role: "Engineer", dates: "Jan 2020 – Mar 2022", responsibilities: [] },
+        { company: "Contoso", role: "Intern", dates: "03/2018 to Present", responsibilities: [] },
+        { company: "Fabrikam", role: "Contractor", dates: "Summer 2017", responsibilities: [] },
+      ],
+      education: [{ institution: "State University", degree: "BSc", dates: "2013-2017" }],
+    });
+
+    expect(exported.work?.map(({ startDate, endDate }) => ({ startDate, endDate }))).toEqual([
+      { startDate: "2020-01", endDate: "2022-03" },
+      { startDate: "2018-03", endDate: undefined },
+      { startDate: undefined, endDate: undefined },
+    ]);
+    expect(exported.education?.[0]).toMatchObject({ startDate: "2013", endDate: "2017" });
+
+    const reimported = fromJsonResume(exported).data;
+    expect(reimported.workExperience.map((job) => job.dates)).toEqual(["2020-01 - 2022-03", "2018-03 - Present", ""]);
+  });
+
+  it("reports a JSON Resume without a name on import", () => {
+    const { errors } = fromJsonResume({ basics: { email: "sam@mail.test" }, work: [{ position: "Designer" }] });
+
+    expect(errors).toEqual(['"personalInfo.name" is missing.']);
+  });
+});
@@ -0,0 +1,166 @@
+import { ResumeData, ResumeValidationResult } from "./types";
+import { validateResumeData } from "./validation";
+
+// Subset of the jsonresume.org schema (https://jsonresume.org/schema) that maps onto ResumeData
+export interface JsonResumeProfile {
+  network?: string;
+  username?: string;
+  url?: string;
+}
+
+export interface JsonResume {
+  basics?: {
+    name?: string;
+    label?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    profiles?: JsonResumeProfile[];
+  };
+  work?: {
+    name?: string;
+    company?: string; // Used by schema versions before 1.0
+    position?: string;
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+  }[];
+  education?: {
+    institution?: string;
+    url?: string;
+    area?: string;
+    studyType?: string;
+    startDate?: string;
+    endDate?: string;
+  }[];
+  skills?: {
+    name?: string;
+    level?: string;
+    keywords?: string[];
+  }[];
+  projects?: {
+    name?: string;
+    description?: string;
+    highlights?: string[];
+    keywords?: string[];
+    url?: string;
+  }[];
+}
+
+export const isJsonResume = (value: unknown): value is JsonResume =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && "basics" in value;
+
+const formatDates = (startDate?: string, endDate?: string) =>
+  startDate ? `${startDate} - ${endDate || "Present"}` : endDate || "";
+
+const findProfile = (profiles: JsonResumeProfile[], network: string) => {
+  const profile = profiles.find((candidate) => candidate.network?.toLowerCase() === network);
+  if (!profile) return "";
+  if (profile.url) return profile.url;
+  return profile.username ? `https://${network}.com/${network === "linkedin" ? "in/" : ""}${profile.username}` : "";
+};
+
+/**
+ * Maps a JSON Resume document onto ResumeData. The result goes through the
+ * same validation as AI-structured data.
+ */
+export function fromJsonResume(resume: JsonResume): ResumeValidationResult {
+  const basics = resume.basics || {};
+  const profiles = basics.profiles || [];
+
+  return validateResumeData({
+    personalInfo: {
+      name: basics.name,
+      email: basics.email,
+      phone: basics.phone,
+      linkedin: findProfile(profiles, "linkedin"),
+      github: findProfile(profiles, "github"),
+    },
+    summary: basics.summary || basics.label,
+    workExperience: (resume.work || []).map((job) => ({
+      company: job.name || job.company,
+      role: job.position,
+      dates: formatDates(job.startDate, job.endDate),
+      responsibilities: [job.summary, ...(job.highlights || [])].filter(Boolean),
+    })),
+    education: (resume.education || []).map((education) => ({
+      institution: education.institution,
+      degree: [education.studyType, education.area].filter(Boolean).join(" in "),
+      dates: formatDates(education.startDate, education.endDate),
+    })),
+    skills: (resume.skills || []).flatMap((skill) => (skill.keywords?.length ? skill.keywords : [skill.name])),
+    projects: (resume.projects || []).map((project) => ({
+      name: project.name,
+      description: project.description || (project.highlights || []).join(" "),
+      technologies: project.keywords || [],
+    })),
+  });
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Converts "2021", "03/2021", "2021-03" or "Mar 2021" to the ISO 8601 form JSON Resume expects
+const toIsoDate = (value: string): string | undefined => {
+  const text = value.trim().toLowerCase();
+  let match = text.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/);
+  if (match) return [match[1], match[2]?.padStart(2, "0"), match[3]?.padStart(2, "0")].filter(Boolean).join("-");
+
+  match = text.match(/^(\d{1,2})\/(\d{4})$/);
+  if (match) return `${match[2]}-${match[1].padStart(2, "0")}`;
+
+  match = text.match(/^([a-z]{3})[a-z]*\.?\s+(\d{4})$/);
+  if (match && MONTHS.includes(match[1])) return `${match[2]}-${String(MONTHS.indexOf(match[1]) + 1).padStart(2, "0")}`;
+
+  return undefined;
+};
+
+// Splits a free-form range such as "Jan 2020 - Present" into JSON Resume start/end dates
+const parseDateRange = (dates: string): { startDate?: string; endDate?: string } => {
+  const [start, end] = dates.trim().split(/\s+(?:-|to)\s+|\s*[–—]\s*|(?<=^\d{4})-(?=\d{4}$)/i);
+  if (!start) return {};
+  return {
+    startDate: toIsoDate(start),
+    endDate: end ? toIsoDate(end) : undefined, // "Present" and unparseable values are left open
+  };
+};
+
+/**
+ * Maps ResumeData to a JSON Resume document. Free-form dates are converted
+ * to ISO 8601 where they can be parsed and omitted otherwise.
+ */
+export function toJsonResume(data: ResumeData): JsonResume {
+  const { personalInfo } = data;
+  const profiles: JsonResumeProfile[] = [];
+  if (personalInfo.linkedin) profiles.push({ network: "LinkedIn", url: personalInfo.linkedin });
+  if (personalInfo.github) profiles.push({ network: "GitHub", url: personalInfo.github });
+
+  return {
+    basics: {
+      name: personalInfo.name,
+      email: personalInfo.email || undefined,
+      phone: personalInfo.phone || undefined,
+      summary: data.summary || undefined,
+      profiles,
+    },
+    work: data.workExperience.map((job) => ({
+      name: job.company,
+      position: job.role,
+      ...parseDateRange(job.dates),
+      highlights: job.responsibilities,
+    })),
+    education: data.education.map((education) => ({
+      institution: education.institution,
+      studyType: education.degree,
+      ...parseDateRange(education.dates),
+    })),
+    skills: data.skills.map((skill) => ({ name: skill })),
+    projects: data.projects.map((project) => ({
+      name: project.name,
+      description: project.description,
+      keywords: project.technologies,
+    })),
+  };
+}
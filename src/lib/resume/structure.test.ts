@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AIProvider } from "@/lib/ai";
+import { ResumeStructuringError, structureResume } from "./structure";
+
+const usage = { provider: "fake", model: "fake", promptTokens: 1, completionTokens: 1, latencyMs: 0 };
+
+// Replies with the given responses in order and records every prompt it received
+const fakeProvider = (responses: string[]) => {
+  const prompts: string[] = [];
+  const provider: AIProvider = {
+    generateText: async (prompt) => {
+      prompts.push(prompt);
+      return { text: responses[prompts.length - 1], usage };
+    },
+    streamText: async function* () {},
+    getName: () => "fake",
+  };
+  return { provider, prompts };
+};
+
+const json = (value: unknown) => "```json\n" + JSON.stringify(value) + "\n```";
+
+describe("structureResume", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns the coerced data without a repair when the response is usable", async () => {
+    const { provider, prompts } = fakeProvider([json({ personalInfo: { name: "Alex Morgan" }, skills: "TypeScript, Go" })]);
+
+    const data = await structureResume(provider, "Structure this resume");
+
+    expect(data.personalInfo.name).toBe("Alex Morgan");
+    expect(data.skills).toEqual(["TypeScript", "Go"]);
+    expect(prompts).toHaveLength(1);
+  });
+
+  it("sends the validation errors back and returns the repaired output", async () => {
+    const onUsage = vi.fn();
+    const { provider, prompts } = fakeProvider([
+      "not json",
+      json({ personalInfo: {}, projects: [{ description: "Bookkeeping library" }] }),
+      json({ personalInfo: { name: "Alex Morgan" }, projects: [{ name: "ledger-kit", description: "Bookkeeping library" }] }),
+    ]);
+
+    const data = await structureResume(provider, "Structure this resume", { onUsage });
+
+    expect(data.projects).toEqual([{ name: "ledger-kit", description: "Bookkeeping library", technologies: [] }]);
+    expect(prompts[1]).toContain("Response is not valid JSON");
+    expect(prompts[2]).toContain('- "personalInfo.name" is missing.');
+    expect(prompts[2]).toContain('- "projects[0].name" is missing.');
+    expect(onUsage).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up with the last errors after the repair attempts", async () => {
+    const { provider, prompts } = fakeProvider([json({ skills: [] }), json({ skills: [] })]);
+
+    const error = await structureResume(provider, "Structure this resume", { maxRepairAttempts: 1 }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(ResumeStructuringError);
+    expect(error.errors).toEqual(['"personalInfo.name" is missing.']);
+    expect(prompts).toHaveLength(2);
+  });
+});
@@ -0,0 +1,71 @@
+import type { AIProvider, AIUsage } from "@/lib/ai";
+import { ResumeData } from "./types";
+import { parseResumeJSON, validateResumeData } from "./validation";
+
+export class ResumeStructuringError extends Error {
+  readonly errors: string[];
+
+  constructor(message: string, errors: string[]) {
+    super(message);
+    this.name = "ResumeStructuringError";
+    this.errors = errors;
+  }
+}
+
+const buildRepairPrompt = (prompt: string, previousResponse: string, errors: string[]) => `
+  ${prompt}
+
+  Your previous response did not match the required schema:
+  ---
+  ${previousResponse}
+  ---
+
+  Fix these problems and keep every other value unchanged:
+  ${errors.map((error) => `- ${error}`).join("\n  ")}
+
+  Return only the corrected JSON object, formatted as a JSON markdown code block.
+`;
+
+export interface StructureResumeOptions {
+  maxRepairAttempts?: number;
+  onUsage?: (usage: AIUsage) => void; // Called for every model call, including repairs
+}
+
+/**
+ * Runs the structuring prompt and returns validated ResumeData. When the
+ * response cannot be parsed or coerced, the validation errors are sent back
+ * to the provider up to `maxRepairAttempts` times before giving up.
+ */
+export async function structureResume(
+  aiProvider: AIProvider,
+  prompt: string,
+  { maxRepairAttempts = 2, onUsage }: StructureResumeOptions = {}
+): Promise<ResumeData> {
+  let currentPrompt = prompt;
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    const { text: response, usage } = await aiProvider.generateText(currentPrompt);
+    onUsage?.(usage);
+
+    let parsed: unknown;
+    try {
+      parsed = parseResumeJSON(response);
+    } catch (error: any) {
+      errors = [`Response is not valid JSON: ${error.message}`];
+      currentPrompt = buildRepairPrompt(prompt, response, errors);
+      continue;
+    }
+
+    const result = validateResumeData(parsed);
+    if (result.errors.length === 0) {
+      return result.data;
+    }
+
+    errors = result.errors;
+    console.warn(`Structured resume failed validation (attempt ${attempt + 1}):`, errors);
+    currentPrompt = buildRepairPrompt(prompt, response, errors);
+  }
+
+  throw new ResumeStructuringError("Could not extract structured data from the resume.", errors);
+}
@@ -0,0 +1,40 @@
+export interface PersonalInfo {
+  name: string;
+  email: string;
+  phone: string;
+  linkedin: string;
+  github: string;
+}
+
+export interface WorkExperience {
+  company: string;
+  role: string;
+  dates: string;
+  responsibilities: string[];
+}
+
+export interface Education {
+  institution: string;
+  degree: string;
+  dates: string;
+}
+
+export interface Project {
+  name: string;
+  description: string;
+  technologies: string[];
+}
+
+export interface ResumeData {
+  personalInfo: PersonalInfo;
+  summary: string;
+  workExperience: WorkExperience[];
+  education: Education[];
+  skills: string[];
+  projects: Project[];
+}
+
+export interface ResumeValidationResult {
+  data: ResumeData;
+  errors: string[]; // Problems that coercion could not fix; empty when the data is usable
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { parseResumeJSON, validateResumeData } from "./validation";
+
+const validResume = {
+  personalInfo: {
+    name: "Alex Morgan",
+    email: "alex.morgan@example.com",
+    phone: "+1 555 0100",
+    linkedin: "linkedin.com/in/alexmorgan",
+    github: "github.com/alexmorgan",
+  },
+  summary: "Backend engineer focused on billing systems.",
+  workExperience: [
+    {
+      company: "Northwind Labs",
+      role: "Senior Software Engineer",
+      dates: "2021 - Present",
+      responsibilities: ["Led the rewrite of the billing platform"],
+    },
+  ],
+  education: [{ institution: "State University", degree: "BSc Computer Science", dates: "2013 - 2017" }],
+  skills: ["TypeScript", "Node.js"],
+  projects: [{ name: "ledger-kit", description: "Double-entry bookkeeping library", technologies: ["TypeScript"] }],
+};
+
+describe("validateResumeData", () => {
+  it("keeps valid data as it is", () => {
+    expect(validateResumeData(validResume)).toEqual({ data: validResume, errors: [] });
+  });
+
+  it("reports missing required fields", () => {
+    const { data, errors } = validateResumeData({
+      workExperience: [{ dates: "2020" }],
+      education: [{ degree: "MSc" }],
+      projects: [{ description: "Untitled side project" }],
+    });
+
+    expect(errors).toEqual([
+      '"personalInfo.name" is missing.',
+      '"workExperience[0]" needs a "company" or "role".',
+      '"education[0].institution" is missing.',
+      '"projects[0].name" is missing.',
+    ]);
+    expect(data.personalInfo).toEqual({ name: "", email: "", phone: "", linkedin: "", github: "" });
+    expect(data.summary).toBe("");
+    expect(data.skills).toEqual([]);
+  });
+
+  it("rejects a top-level value that is not an object", () => {
+    const { data, errors } = validateResumeData(["Alex Morgan"]);
+
+    expect(errors[0]).toBe("Expected a JSON object at the top level.");
+    expect(data.workExperience).toEqual([]);
+  });
+
+  it("reports arrays of the wrong type and drops the entries it cannot use", () => {
+    const { data, errors } = validateResumeData({
+      personalInfo: { name: "Alex Morgan" },
+      workExperience: "Northwind Labs, 2021 - Present",
+      education: ["State University", { institution: "Coding Bootcamp" }],
+      projects: 42,
+    });
+
+    expect(errors).toEqual([
+      '"workExperience" must be an array of objects, got string.',
+      '"education[0]" must be an object, got string.',
+      '"projects" must be an array of objects, got number.',
+    ]);
+    expect(data.workExperience).toEqual([]);
+    expect(data.education).toEqual([{ institution: "Coding Bootcamp", degree: "", dates: "" }]);
+    expect(data.projects).toEqual([]);
+  });
+
+  it("repairs common shape errors", () => {
+    const { data, errors } = validateResumeData({
+      fullName: "Alex Morgan",
+      email: "alex.morgan@example.com",
+      phone: 5550100,
+      objective: "Backend engineer.",
+      experience: {
+        employer: "Northwind Labs",
+        title: "Senior Software Engineer",
+        start: "2021",
+        end: "Present",
+        highlights: "- Led the rewrite of the billing platform, on time\n- Mentored four engineers",
+      },
+      education: [{ school: "State University", studyType: "BSc", date: { from: 2013, to: 2017 } }],
+      skills: [{ category: "Languages", items: ["TypeScript", "Go"] }, "SQL"],
+      projects: [{ title: "ledger-kit", summary: "Bookkeeping library", stack: "TypeScript, Postgres" }],
+    });
+
+    expect(errors).toEqual([]);
+    expect(data).toEqual({
+      personalInfo: { name: "Alex Morgan", email: "alex.morgan@example.com", phone: "5550100", linkedin: "", github: "" },
+      summary: "Backend engineer.",
+      workExperience: [
+        {
+          company: "Northwind Labs",
+          role: "Senior Software Engineer",
+          dates: "2021 - Present",
+          responsibilities: ["Led the rewrite of the billing platform, on time", "Mentored four engineers"],
+        },
+      ],
+      education: [{ institution: "State University", degree: "BSc", dates: "2013 - 2017" }],
+      skills: ["TypeScript", "Go", "SQL"],
+      projects: [{ name: "ledger-kit", description: "Bookkeeping library", technologies: ["TypeScript", "Postgres"] }],
+    });
+  });
+
+  it("splits skills given as a single string", () => {
+    const { data } = validateResumeData({ personalInfo: { name: "Alex Morgan" }, skills: "TypeScript, React; Node.js\n• SQL" });
+
+    expect(data.skills).toEqual(["TypeScript", "React", "Node.js", "SQL"]);
+  });
+});
+
+describe("parseResumeJSON", () => {
+  it("reads JSON from a code fence", () => {
+    expect(parseResumeJSON('Here you go:\n```json\n{"summary": "Engineer"}\n```')).toEqual({ summary: "Engineer" });
+  });
+
+  it("reads JSON surrounded by prose", () => {
+    expect(parseResumeJSON('Sure! {"summary": "Engineer"} Let me know if you need more.')).toEqual({ summary: "Engineer" });
+  });
+
+  it("throws when there is no JSON object", () => {
+    expect(() => parseResumeJSON("I could not read the resume.")).toThrow();
+  });
+});
@@ -0,0 +1,170 @@
+import { Education, PersonalInfo, Project, ResumeData, ResumeValidationResult, WorkExperience } from "./types";
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Models sometimes return numbers, arrays or {start, end} objects where a string belongs
+const toText = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean).join(", ");
+  if (isRecord(value)) return Object.values(value).map(toText).filter(Boolean).join(" - ");
+  return "";
+};
+
+// Accepts arrays, comma/newline separated strings and category maps ({ "Languages": [...] })
+const toList = (value: unknown, splitOnCommas = true): string[] => {
+  if (value === null || value === undefined) return [];
+  if (Array.isArray(value)) {
+    // Items of a real array are kept whole; only category objects and nested arrays are flattened
+    return value.flatMap((item) => (isRecord(item) || Array.isArray(item) ? toList(item) : [toText(item)])).filter(Boolean);
+  }
+  if (typeof value === "string") {
+    return value
+      .split(splitOnCommas ? /\n|;|,|•/ : /\n|;|•/)
+      .map((item) => item.replace(/^[-*\s]+/, "").trim())
+      .filter(Boolean);
+  }
+  if (isRecord(value)) {
+    // { category: "Languages", items: [...] } should yield the items, not the category label
+    const values = Object.values(value);
+    const lists = values.filter(Array.isArray);
+    return (lists.length > 0 ? lists : values).flatMap((item) => toList(item));
+  }
+  const text = toText(value);
+  return text ? [text] : [];
+};
+
+const pick = (record: RawRecord, keys: string[]): unknown => {
+  for (const key of keys) {
+    if (record[key] !== undefined && record[key] !== null && record[key] !== "") return record[key];
+  }
+  return undefined;
+};
+
+const pickDates = (record: RawRecord): string => {
+  const dates = toText(pick(record, ["dates", "date", "period", "duration"]));
+  if (dates) return dates;
+  const start = toText(pick(record, ["startDate", "start"]));
+  const end = toText(pick(record, ["endDate", "end"]));
+  return [start, end].filter(Boolean).join(" - ");
+};
+
+const toEntries = (value: unknown, path: string, errors: string[]): RawRecord[] => {
+  if (value === null || value === undefined) return [];
+  if (isRecord(value)) return [value];
+  if (!Array.isArray(value)) {
+    errors.push(`"${path}" must be an array of objects, got ${typeof value}.`);
+    return [];
+  }
+  return value.filter((entry, index) => {
+    if (isRecord(entry)) return true;
+    errors.push(`"${path}[${index}]" must be an object, got ${typeof entry}.`);
+    return false;
+  });
+};
+
+const coercePersonalInfo = (value: unknown, root: RawRecord, errors: string[]): PersonalInfo => {
+  // Some models flatten personalInfo fields into the root object
+  const info = isRecord(value) ? value : root;
+  const personalInfo = {
+    name: toText(pick(info, ["name", "fullName"])),
+    email: toText(pick(info, ["email"])),
+    phone: toText(pick(info, ["phone", "phoneNumber"])),
+    linkedin: toText(pick(info, ["linkedin", "linkedIn"])),
+    github: toText(pick(info, ["github", "gitHub"])),
+  };
+  if (!personalInfo.name) {
+    errors.push(`"personalInfo.name" is missing.`);
+  }
+  return personalInfo;
+};
+
+const coerceWorkExperience = (value: unknown, errors: string[]): WorkExperience[] =>
+  toEntries(value, "workExperience", errors).map((entry, index) => {
+    const job = {
+      company: toText(pick(entry, ["company", "employer", "organization"])),
+      role: toText(pick(entry, ["role", "title", "position"])),
+      dates: pickDates(entry),
+      responsibilities: toList(pick(entry, ["responsibilities", "highlights", "achievements", "description"]), false),
+    };
+    if (!job.company && !job.role) {
+      errors.push(`"workExperience[${index}]" needs a "company" or "role".`);
+    }
+    return job;
+  });
+
+const coerceEducation = (value: unknown, errors: string[]): Education[] =>
+  toEntries(value, "education", errors).map((entry, index) => {
+    const education = {
+      institution: toText(pick(entry, ["institution", "school", "university"])),
+      degree: toText(pick(entry, ["degree", "studyType", "area"])),
+      dates: pickDates(entry),
+    };
+    if (!education.institution) {
+      errors.push(`"education[${index}].institution" is missing.`);
+    }
+    return education;
+  });
+
+const coerceProjects = (value: unknown, errors: string[]): Project[] =>
+  toEntries(value, "projects", errors).map((entry, index) => {
+    const project = {
+      name: toText(pick(entry, ["name", "title"])),
+      description: toText(pick(entry, ["description", "summary"])),
+      technologies: toList(pick(entry, ["technologies", "tech", "stack", "tools", "keywords"])),
+    };
+    if (!project.name) {
+      errors.push(`"projects[${index}].name" is missing.`);
+    }
+    return project;
+  });
+
+/**
+ * Coerces raw model output into ResumeData, fixing common shape errors
+ * (strings instead of arrays, renamed keys, flattened personalInfo) and
+ * reporting anything that could not be repaired.
+ */
+export function validateResumeData(value: unknown): ResumeValidationResult {
+  const errors: string[] = [];
+  const root = isRecord(value) ? value : {};
+  if (!isRecord(value)) {
+    errors.push("Expected a JSON object at the top level.");
+  }
+
+  const data: ResumeData = {
+    personalInfo: coercePersonalInfo(root.personalInfo, root, errors),
+    summary: toText(pick(root, ["summary", "objective", "about"])),
+    workExperience: coerceWorkExperience(pick(root, ["workExperience", "experience", "work"]), errors),
+    education: coerceEducation(root.education, errors),
+    skills: toList(root.skills),
+    projects: coerceProjects(root.projects, errors),
+  };
+
+  return { data, errors };
+}
+
+// Helper function to clean up AI response
+export const cleanJSON = (text: string) => {
+  const match = text.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+  return match ? match[1] : text;
+};
+
+/**
+ * Parses a JSON object out of a model response, tolerating code fences and
+ * leading/trailing prose around the object.
+ */
+export function parseResumeJSON(text: string): unknown {
+  const cleaned = cleanJSON(text).trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch (error) {
+    const start = cleaned.indexOf("{");
+    const end = cleaned.lastIndexOf("}");
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse(cleaned.slice(start, end + 1));
+  }
+}
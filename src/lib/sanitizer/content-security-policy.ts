@@ -0,0 +1,44 @@
+// Third-party sources generated pages may load: Tailwind's CDN build and Google Fonts
+export const ALLOWED_SCRIPT_ORIGINS = ["https://cdn.tailwindcss.com"];
+export const ALLOWED_STYLE_ORIGINS = ["https://fonts.googleapis.com"];
+export const ALLOWED_FONT_ORIGINS = ["https://fonts.gstatic.com"];
+
+const BASE_DIRECTIVES = [
+  "default-src 'none'",
+  // No inline scripts: the sanitizer removes them. Inline styles carry the page's design and Tailwind's generated CSS
+  `script-src ${ALLOWED_SCRIPT_ORIGINS.join(" ")}`,
+  `style-src 'unsafe-inline' ${ALLOWED_STYLE_ORIGINS.join(" ")}`,
+  `font-src data: ${ALLOWED_FONT_ORIGINS.join(" ")}`,
+  // Nothing can be sent anywhere: no fetch/XHR/beacons, no form posts, no frames or plugins
+  "connect-src 'none'",
+  "form-action 'none'",
+  "frame-src 'none'",
+  "object-src 'none'",
+  "base-uri 'none'",
+];
+
+/**
+ * Policy embedded in each published page as a <meta> tag, so it applies
+ * wherever the file is hosted (Vercel Blob, a bucket or our own domain).
+ * Images are limited to the page's own host and the storage hosts of its
+ * uploaded assets, which keeps tracking pixels out. Browsers ignore
+ * `sandbox` and `frame-ancestors` in a <meta> policy; only the header below
+ * can set them.
+ */
+export function buildDocumentPolicy(imageOrigins: string[] = []): string {
+  const images = ["'self'", "data:", "blob:", ...imageOrigins].join(" ");
+  return [...BASE_DIRECTIVES, `img-src ${images}`].join("; ");
+}
+
+/**
+ * Header sent when we serve a portfolio from our own origin. Browsers
+ * enforce it together with the embedded policy. The sandbox gives the page
+ * an opaque origin, so its scripts cannot reach our cookies or APIs, and it
+ * also covers pages published before the embedded policy existed.
+ */
+export const PORTFOLIO_CSP_HEADER = [
+  ...BASE_DIRECTIVES,
+  "img-src 'self' data: blob: https:",
+  "frame-ancestors 'self'",
+  "sandbox allow-scripts allow-popups allow-popups-to-escape-sandbox allow-top-navigation-by-user-activation",
+].join("; ");
@@ -0,0 +1,5 @@
+export { sanitizePortfolioHtml } from "./sanitize-html";
+export { buildDocumentPolicy, PORTFOLIO_CSP_HEADER } from "./content-security-policy";
+export { tokenizeHtml } from "./tokenizer";
+export type { HtmlAttribute, HtmlToken } from "./tokenizer";
+export type { SanitizeHtmlOptions, SanitizedHtml } from "./sanitize-html";
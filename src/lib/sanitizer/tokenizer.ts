@@ -0,0 +1,228 @@
+export interface HtmlAttribute {
+  name: string; // Lowercased
+  value: string | null; // null for attributes without a value, e.g. `defer`
+}
+
+export type HtmlToken =
+  | { type: "text"; text: string }
+  | { type: "comment"; text: string }
+  | { type: "declaration"; text: string } // <!DOCTYPE html> and other <!...> markup
+  | { type: "startTag"; name: string; attributes: HtmlAttribute[]; selfClosing: boolean }
+  | { type: "endTag"; name: string };
+
+// HTML elements whose content is not markup; it runs until the matching end tag
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "title", "xmp", "noembed", "noframes", "iframe"]);
+
+// HTML start tags that close the open SVG or MathML elements, back to the nearest integration point
+const FOREIGN_BREAKOUT_ELEMENTS = new Set([
+  "b", "big", "blockquote", "body", "br", "center", "code", "dd", "div", "dl", "dt", "em", "embed", "h1", "h2", "h3", "h4",
+  "h5", "h6", "head", "hr", "i", "img", "li", "listing", "menu", "meta", "nobr", "ol", "p", "pre", "ruby", "s", "small",
+  "span", "strong", "strike", "sub", "sup", "table", "tt", "u", "ul", "var",
+]);
+
+// Foreign elements whose children are parsed as HTML again
+const SVG_INTEGRATION_POINTS = new Set(["foreignobject", "desc", "title"]);
+const MATHML_TEXT_INTEGRATION_POINTS = new Set(["mi", "mo", "mn", "ms", "mtext"]);
+
+// An open <svg> or <math> element, or an element inside one
+interface ForeignElement {
+  name: string;
+  namespace: "svg" | "math";
+  integrationPoint: boolean;
+}
+
+const isIntegrationPoint = (namespace: ForeignElement["namespace"], name: string, attributes: HtmlAttribute[]) => {
+  if (namespace === "svg") return SVG_INTEGRATION_POINTS.has(name);
+  if (MATHML_TEXT_INTEGRATION_POINTS.has(name)) return true;
+  const encoding = attributes.find((attribute) => attribute.name === "encoding")?.value ?? "";
+  return name === "annotation-xml" && /^(?:text\/html|application\/xhtml\+xml)$/i.test(encoding);
+};
+
+const isBreakout = (name: string, attributes: HtmlAttribute[]) =>
+  FOREIGN_BREAKOUT_ELEMENTS.has(name) ||
+  (name === "font" && attributes.some((attribute) => ["color", "face", "size"].includes(attribute.name)));
+
+// Start tags in a MathML text integration point are HTML, except these two
+const isHtmlStartTag = (parent: ForeignElement | undefined, name: string) =>
+  !parent ||
+  (parent.integrationPoint && !(parent.namespace === "math" && MATHML_TEXT_INTEGRATION_POINTS.has(parent.name) && (name === "mglyph" || name === "malignmark")));
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase();
+    if (lower.startsWith("#x")) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith("#")) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return ({ amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" } as Record<string, string>)[lower] ?? entity;
+  });
+
+/**
+ * Splits HTML into tags, text and comments. This is a forgiving tokenizer
+ * for the sanitizer, not a full HTML5 parser: it does not build a tree or
+ * fix nesting, but it reads tags and attributes the way browsers do, so
+ * that markup cannot hide from the sanitizer behind unusual quoting.
+ * Open SVG and MathML elements are tracked because <style>, <title> and
+ * the other raw-text elements hold markup there, as browsers parse them.
+ * Attribute values are entity-decoded.
+ */
+export function tokenizeHtml(html: string): HtmlToken[] {
+  const tokens: HtmlToken[] = [];
+  const foreign: ForeignElement[] = [];
+  let position = 0;
+  let text = "";
+
+  const flushText = () => {
+    if (text) tokens.push({ type: "text", text });
+    text = "";
+  };
+
+  while (position < html.length) {
+    const open = html.indexOf("<", position);
+    if (open === -1) {
+      text += html.slice(position);
+      break;
+    }
+    text += html.slice(position, open);
+    position = open;
+
+    if (html.startsWith("<!--", position)) {
+      const end = html.indexOf("-->", position + 4);
+      flushText();
+      tokens.push({ type: "comment", text: html.slice(position + 4, end === -1 ? html.length : end) });
+      position = end === -1 ? html.length : end + 3;
+      continue;
+    }
+
+    if (html[position + 1] === "!" || html[position + 1] === "?") {
+      const end = html.indexOf(">", position);
+      flushText();
+      tokens.push({ type: "declaration", text: html.slice(position, end === -1 ? html.length : end + 1) });
+      position = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const endTag = html.slice(position).match(/^<\/([a-zA-Z][^\s/>]*)[^>]*>?/);
+    if (endTag) {
+      flushText();
+      const name = endTag[1].toLowerCase();
+      tokens.push({ type: "endTag", name });
+      position += endTag[0].length;
+
+      const open = foreign.map((element) => element.name).lastIndexOf(name);
+      if (open !== -1) {
+        foreign.length = open;
+      } else if ((name === "p" || name === "br") && foreign.length > 0) {
+        while (foreign.length > 0 && !foreign[foreign.length - 1].integrationPoint) foreign.pop();
+      }
+      continue;
+    }
+
+    const tagName = html.slice(position).match(/^<([a-zA-Z][^\s/>]*)/);
+    if (!tagName) {
+      // A lone "<" is text
+      text += "<";
+      position++;
+      continue;
+    }
+
+    flushText();
+    const name = tagName[1].toLowerCase();
+    position += tagName[0].length;
+    const attributes: HtmlAttribute[] = [];
+    let selfClosing = false;
+
+    while (position < html.length) {
+      const whitespace = html.slice(position).match(/^[\s/]+/);
+      if (whitespace) {
+        selfClosing = whitespace[0].endsWith("/");
+        position += whitespace[0].length;
+      }
+      if (position >= html.length) break;
+      if (html[position] === ">") {
+        position++;
+        break;
+      }
+      selfClosing = false;
+
+      const attributeName = html.slice(position).match(/^[^\s/>][^\s/>=]*/);
+      if (!attributeName) break;
+      position += attributeName[0].length;
+
+      const equals = html.slice(position).match(/^\s*=\s*/);
+      let value: string | null = null;
+      if (equals) {
+        position += equals[0].length;
+        const quote = html[position];
+        if (quote === '"' || quote === "'") {
+          const end = html.indexOf(quote, position + 1);
+          value = html.slice(position + 1, end === -1 ? html.length : end);
+          position = end === -1 ? html.length : end + 1;
+        } else {
+          const unquoted = html.slice(position).match(/^[^\s>]*/)![0];
+          value = unquoted;
+          position += unquoted.length;
+        }
+        value = decodeEntities(value);
+      }
+
+      const lowerName = attributeName[0].toLowerCase();
+      // Browsers keep the first of duplicated attributes
+      if (!attributes.some((attribute) => attribute.name === lowerName)) {
+        attributes.push({ name: lowerName, value });
+      }
+    }
+
+    tokens.push({ type: "startTag", name, attributes, selfClosing });
+
+    let parent: ForeignElement | undefined = foreign[foreign.length - 1];
+    if (!isHtmlStartTag(parent, name) && isBreakout(name, attributes)) {
+      while (foreign.length > 0 && !foreign[foreign.length - 1].integrationPoint) foreign.pop();
+      parent = foreign[foreign.length - 1];
+    }
+    if (!isHtmlStartTag(parent, name) || name === "svg" || name === "math") {
+      // Foreign elements honour "/>"; their content is markup
+      if (!selfClosing) {
+        const namespace = name === "svg" || name === "math" ? name : parent!.namespace;
+        foreign.push({ name, namespace, integrationPoint: isIntegrationPoint(namespace, name, attributes) });
+      }
+      continue;
+    }
+
+    // HTML ignores "/>" on raw-text elements, so <style/> still starts raw text
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const close = html.slice(position).search(new RegExp(`</${name}[\\s/>]`, "i"));
+      const end = close === -1 ? html.length : position + close;
+      if (end > position) tokens.push({ type: "text", text: html.slice(position, end) });
+      position = end;
+    }
+  }
+
+  flushText();
+  return tokens;
+}
+
+// "<" and ">" are escaped too, so no value reads as a closing tag if a browser parses it as raw text
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export function serializeTokens(tokens: HtmlToken[]): string {
+  return tokens
+    .map((token) => {
+      switch (token.type) {
+        case "text":
+          return token.text;
+        case "comment":
+          return `<!--${token.text}-->`;
+        case "declaration":
+          return token.text;
+        case "endTag":
+          return `</${token.name}>`;
+        case "startTag": {
+          const attributes = token.attributes
+            .map(({ name, value }) => (value === null ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`))
+            .join("");
+          return `<${token.name}${attributes}${token.selfClosing ? " /" : ""}>`;
+        }
+      }
+    })
+    .join("");
+}
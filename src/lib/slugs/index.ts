@@ -0,0 +1,10 @@
+export {
+  normalizeSlug,
+  validateSlug,
+  isSlugAvailable,
+  reserveSlug,
+  releaseReservation,
+  claimSlug,
+  releasePortfolioSlug,
+  resolveSlug,
+} from "./slugs";
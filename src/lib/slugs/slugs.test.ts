@@ -0,0 +1,90 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  claimSlug,
+  isSlugAvailable,
+  normalizeSlug,
+  releasePortfolioSlug,
+  releaseReservation,
+  reserveSlug,
+  resolveSlug,
+  validateSlug,
+} from "./slugs";
+
+const ALEX = "anonymous:alex";
+const SAM = "anonymous:sam";
+const PORTFOLIO_ID = "3f2a9c1e-0000-4000-8000-000000000001";
+const OTHER_PORTFOLIO_ID = "3f2a9c1e-0000-4000-8000-000000000002";
+
+describe("validateSlug", () => {
+  it("accepts lowercase words joined by single hyphens", () => {
+    expect(validateSlug(normalizeSlug("  Alex-Morgan2 "))).toBeNull();
+  });
+
+  it.each(["ab", "a".repeat(41), "1alex", "-alex", "alex--morgan", "alex_morgan", "alex-"])("rejects %j", (slug) => {
+    expect(validateSlug(slug)).not.toBeNull();
+  });
+
+  it("rejects route names and other reserved words", () => {
+    expect(validateSlug("admin")).toBe('"admin" is reserved. Please choose another URL.');
+    expect(validateSlug("portfolios")).not.toBeNull();
+  });
+});
+
+// Runs against the in-memory key-value store; each test uses its own slugs
+describe("slug reservations and claims", () => {
+  beforeAll(() => {
+    process.env.KV_PROVIDER = "memory";
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("holds a reservation for its owner only", async () => {
+    expect(await reserveSlug("alex-morgan", ALEX)).toBe(true);
+    expect(await reserveSlug("alex-morgan", ALEX)).toBe(true);
+    expect(await reserveSlug("alex-morgan", SAM)).toBe(false);
+    expect(await claimSlug("alex-morgan", OTHER_PORTFOLIO_ID, SAM)).toBe(false);
+
+    expect(await isSlugAvailable("alex-morgan")).toBe(false);
+    expect(await resolveSlug("alex-morgan")).toBeNull();
+  });
+
+  it("only lets the owner release a reservation", async () => {
+    await reserveSlug("sam-lee", ALEX);
+
+    await releaseReservation("sam-lee", SAM);
+    expect(await isSlugAvailable("sam-lee")).toBe(false);
+
+    await releaseReservation("sam-lee", ALEX);
+    expect(await isSlugAvailable("sam-lee")).toBe(true);
+  });
+
+  it("lets anyone reserve a slug once the reservation expired", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await reserveSlug("jordan-kim", ALEX);
+
+    vi.setSystemTime(Date.now() + 15 * 60 * 1000 + 1000);
+    expect(await isSlugAvailable("jordan-kim")).toBe(true);
+    expect(await reserveSlug("jordan-kim", SAM)).toBe(true);
+    expect(await claimSlug("jordan-kim", PORTFOLIO_ID, ALEX)).toBe(false);
+  });
+
+  it("points a claimed slug at the portfolio and frees its previous slug", async () => {
+    await reserveSlug("riley-chen", ALEX);
+    expect(await claimSlug("riley-chen", PORTFOLIO_ID, ALEX)).toBe(true);
+    expect(await resolveSlug("riley-chen")).toBe(PORTFOLIO_ID);
+
+    // Releasing a claimed slug's reservation does nothing
+    await releaseReservation("riley-chen", ALEX);
+    expect(await resolveSlug("riley-chen")).toBe(PORTFOLIO_ID);
+
+    expect(await claimSlug("riley-chen-dev", PORTFOLIO_ID, ALEX)).toBe(true);
+    expect(await isSlugAvailable("riley-chen")).toBe(true);
+    expect(await claimSlug("riley-chen-dev", OTHER_PORTFOLIO_ID, SAM)).toBe(false);
+
+    await releasePortfolioSlug(PORTFOLIO_ID);
+    expect(await resolveSlug("riley-chen-dev")).toBeNull();
+    expect(await isSlugAvailable("riley-chen-dev")).toBe(true);
+  });
+});
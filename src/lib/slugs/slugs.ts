@@ -0,0 +1,103 @@
+import { KVFactory } from "@/lib/kv";
+
+// Key-value store for slug ownership
+const kv = () => KVFactory.getDefaultStore();
+
+const MIN_SLUG_LENGTH = 3;
+const MAX_SLUG_LENGTH = 40;
+// Starting with a letter keeps slugs from being read back from the key-value store as JSON numbers
+const SLUG_PATTERN = /^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/;
+
+// Held while a portfolio is generated, so nobody else can claim the slug in the meantime
+const RESERVATION_TTL_SECONDS = 15 * 60;
+const RESERVATION_PREFIX = "reserved:";
+
+// Route segments and words that would be confusing or misleading as someone's portfolio URL
+const RESERVED_SLUGS = new Set([
+  "about", "account", "admin", "api", "app", "assets", "auth", "blog", "contact", "dashboard",
+  "delete", "docs", "edit", "false", "favicon", "folioflexxing", "help", "home", "index", "login", "logout",
+  "new", "null", "p", "portfolio", "portfolios", "privacy", "register", "root", "settings", "signin",
+  "signup", "static", "status", "support", "system", "terms", "true", "undefined", "www",
+]);
+
+// slug:{slug} holds the portfolio id (or a reservation); slug:portfolio:{id} points back to the slug
+const slugKey = (slug: string) => `slug:${slug}`;
+const portfolioSlugKey = (id: string) => `slug:portfolio:${id}`;
+const reservation = (identifier: string) => `${RESERVATION_PREFIX}${identifier}`;
+
+export const normalizeSlug = (slug: string) => slug.trim().toLowerCase();
+
+// Returns why a slug cannot be used, or null when it is well-formed and not reserved
+export function validateSlug(slug: string): string | null {
+  if (slug.length < MIN_SLUG_LENGTH || slug.length > MAX_SLUG_LENGTH) {
+    return `The URL must be between ${MIN_SLUG_LENGTH} and ${MAX_SLUG_LENGTH} characters long.`;
+  }
+  if (!SLUG_PATTERN.test(slug)) {
+    return "The URL must start with a letter and may only contain lowercase letters, numbers and single hyphens.";
+  }
+  if (RESERVED_SLUGS.has(slug)) {
+    return `"${slug}" is reserved. Please choose another URL.`;
+  }
+  return null;
+}
+
+export async function isSlugAvailable(slug: string): Promise<boolean> {
+  return !(await kv().exists(slugKey(slug)));
+}
+
+/**
+ * Holds a slug for the requester while their portfolio is generated.
+ * Returns false when someone else already owns or reserved it.
+ */
+export async function reserveSlug(slug: string, identifier: string): Promise<boolean> {
+  const reserved = await kv().set(slugKey(slug), reservation(identifier), { nx: true, ex: RESERVATION_TTL_SECONDS });
+  if (reserved) return true;
+  return (await kv().get<string>(slugKey(slug))) === reservation(identifier);
+}
+
+// Gives up a reservation that was not claimed, e.g. because generation failed
+export async function releaseReservation(slug: string, identifier: string): Promise<void> {
+  if ((await kv().get<string>(slugKey(slug))) === reservation(identifier)) {
+    await kv().del(slugKey(slug));
+  }
+}
+
+/**
+ * Points a slug at a portfolio for good. The slug must be free, reserved by
+ * the same requester or already point at this portfolio. A slug the
+ * portfolio held before is released. Returns false when the slug is taken.
+ */
+export async function claimSlug(slug: string, id: string, identifier: string): Promise<boolean> {
+  const current = await kv().get<string>(slugKey(slug));
+  if (current && current !== id && current !== reservation(identifier)) {
+    return false;
+  }
+  if (current === null) {
+    // Not reserved first, so guard against a concurrent claim
+    if (!(await kv().set(slugKey(slug), id, { nx: true }))) return false;
+  } else {
+    await kv().set(slugKey(slug), id);
+  }
+
+  const previous = await kv().get<string>(portfolioSlugKey(id));
+  if (previous && previous !== slug) {
+    await kv().del(slugKey(previous));
+  }
+  await kv().set(portfolioSlugKey(id), slug);
+  return true;
+}
+
+// Frees the slug of a portfolio, if it has one
+export async function releasePortfolioSlug(id: string): Promise<void> {
+  const slug = await kv().get<string>(portfolioSlugKey(id));
+  if (slug && (await kv().get<string>(slugKey(slug))) === id) {
+    await kv().del(slugKey(slug));
+  }
+  await kv().del(portfolioSlugKey(id));
+}
+
+// Returns the portfolio id a slug points at; reservations resolve to nothing
+export async function resolveSlug(slug: string): Promise<string | null> {
+  const value = await kv().get<string>(slugKey(slug));
+  return value && !value.startsWith(RESERVATION_PREFIX) ? value : null;
+}
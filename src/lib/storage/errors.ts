@@ -0,0 +1,9 @@
+export class StorageNotFoundError extends Error {
+  readonly path: string;
+
+  constructor(path: string) {
+    super(`File not found in storage: ${path}`);
+    this.name = "StorageNotFoundError";
+    this.path = path;
+  }
+}
@@ -1,3 +1,6 @@
-export { StorageFactory } from "./storage-factory";
+export { StorageFactory, isStorageType } from "./storage-factory";
+export { S3StorageProvider } from "./s3-provider";
+export { StorageNotFoundError } from "./errors";
 export type { StorageProvider, StorageConfig, PortfolioFiles } from "./types";
 export type { StorageType } from "./storage-factory";
+export type { S3StorageConfig } from "./s3-provider";
@@ -1,18 +1,19 @@
 import fs from "fs/promises";
 import path from "path";
 import { StorageProvider } from "./types";
+import { StorageNotFoundError } from "./errors";
 
 export class LocalStorageProvider implements StorageProvider {
   private baseDir: string;
   private baseUrl: string;
 
   constructor(baseDir: string, baseUrl: string = "") {
-    this.baseDir = baseDir;
+    this.baseDir = path.resolve(baseDir);
     this.baseUrl = baseUrl;
   }
 
   async uploadFile(filePath: string, content: Buffer | string, contentType?: string): Promise<string> {
-    const fullPath = path.join(this.baseDir, filePath);
+    const fullPath = this.resolve(filePath);
     const dir = path.dirname(fullPath);
     await fs.mkdir(dir, { recursive: true });
     await fs.writeFile(fullPath, content);
@@ -24,13 +25,67 @@ export class LocalStorageProvider implements StorageProvider {
     return this.uploadFile(filePath, content, "application/json");
   }
 
+  async readFile(filePath: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(filePath));
+    } catch (error: any) {
+      if (error.code === "ENOENT") throw new StorageNotFoundError(filePath);
+      throw error;
+    }
+  }
+
+  async readJSON<T = unknown>(filePath: string): Promise<T> {
+    return JSON.parse((await this.readFile(filePath)).toString("utf-8"));
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const root = this.resolve(prefix);
+    try {
+      const entries = await fs.readdir(root, { recursive: true, withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isFile())
+        .map((entry) => path.relative(this.baseDir, path.join(entry.parentPath ?? entry.path, entry.name)))
+        .map((relativePath) => relativePath.split(path.sep).join("/"))
+        .sort();
+    } catch (error: any) {
+      if (error.code === "ENOENT" || error.code === "ENOTDIR") return [];
+      throw error;
+    }
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    try {
+      return (await fs.stat(this.resolve(filePath))).isFile();
+    } catch (error: any) {
+      if (error.code === "ENOENT") return false;
+      throw error;
+    }
+  }
+
   getPublicUrl(filePath: string): string {
     return `${this.baseUrl}/${filePath}`;
   }
 
+  getPathFromUrl(url: string): string | null {
+    const pathname = url.split(/[?#]/)[0];
+    if (!pathname.startsWith(`${this.baseUrl}/`)) return null;
+    try {
+      return decodeURIComponent(pathname.slice(this.baseUrl.length + 1));
+    } catch {
+      return null;
+    }
+  }
+
   async deleteFile(filePath: string): Promise<void> {
-    const fullPath = path.join(this.baseDir, filePath);
+    const fullPath = this.resolve(filePath);
     await fs.unlink(fullPath);
+
+    // Remove directories left empty so deleted portfolios leave nothing behind
+    let dir = path.dirname(fullPath);
+    while (dir !== this.baseDir && (await fs.readdir(dir)).length === 0) {
+      await fs.rmdir(dir);
+      dir = path.dirname(dir);
+    }
   }
 
   getName(): string {
@@ -40,4 +95,13 @@ export class LocalStorageProvider implements StorageProvider {
   isAbsoluteUrl(): boolean {
     return false;
   }
+
+  // Rejects paths that would escape the storage directory
+  private resolve(filePath: string): string {
+    const fullPath = path.resolve(this.baseDir, filePath);
+    if (fullPath !== this.baseDir && !fullPath.startsWith(this.baseDir + path.sep)) {
+      throw new Error(`Invalid storage path: ${filePath}`);
+    }
+    return fullPath;
+  }
 }
@@ -0,0 +1,83 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import S3rver from "s3rver";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { StorageNotFoundError } from "./errors";
+import { S3StorageProvider } from "./s3-provider";
+
+const BUCKET = "portfolios";
+
+// Runs the provider against s3rver, a local S3 stand-in that checks request signatures like MinIO does
+describe("S3StorageProvider", () => {
+  let server: S3rver;
+  let directory: string;
+  let endpoint: string;
+  let storage: S3StorageProvider;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "s3rver-"));
+    server = new S3rver({ address: "127.0.0.1", port: 0, silent: true, directory, configureBuckets: [{ name: BUCKET, configs: [] }] });
+    const { port } = await server.run();
+    endpoint = `http://127.0.0.1:${port}`;
+    // s3rver accepts its own fixed credentials
+    storage = new S3StorageProvider({ endpoint, bucket: BUCKET, region: "us-east-1", accessKeyId: "S3RVER", secretAccessKey: "S3RVER" });
+  });
+
+  afterAll(async () => {
+    await server.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("uploads files and returns their public URL", async () => {
+    const url = await storage.uploadFile("portfolios/abc/index.html", "<html>Hi</html>", "text/html");
+
+    expect(url).toBe(`${endpoint}/${BUCKET}/portfolios/abc/index.html`);
+    const response = await fetch(url);
+    expect(await response.text()).toBe("<html>Hi</html>");
+    expect(response.headers.get("content-type")).toBe("text/html; charset=utf-8");
+    expect(response.headers.get("cache-control")).toBe("public, max-age=60");
+  });
+
+  it("marks binary assets as immutable", async () => {
+    const url = await storage.uploadFile("images/abc/profile.png", Buffer.from([0x89, 0x50, 0x4e, 0x47]), "image/png");
+
+    expect((await fetch(url)).headers.get("cache-control")).toBe("public, max-age=31536000, immutable");
+    expect(await storage.readFile(url)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  });
+
+  it("reads JSON back by path or public URL", async () => {
+    const url = await storage.uploadJSON("portfolios/abc/metadata.json", { id: "abc" });
+
+    expect(await storage.readJSON("portfolios/abc/metadata.json")).toEqual({ id: "abc" });
+    expect(await storage.readJSON(url)).toEqual({ id: "abc" });
+  });
+
+  it("encodes keys in public URLs and maps them back", async () => {
+    const url = await storage.uploadFile("portfolios/with space/ü.html", "x", "text/html");
+
+    expect(url).toBe(`${endpoint}/${BUCKET}/portfolios/with%20space/%C3%BC.html`);
+    expect(storage.getPathFromUrl(url)).toBe("portfolios/with space/ü.html");
+    expect(storage.getPathFromUrl("https://elsewhere.test/portfolios/abc/index.html")).toBeNull();
+  });
+
+  it("lists keys under a prefix", async () => {
+    await Promise.all(Array.from({ length: 3 }, (_, index) => storage.uploadJSON(`listing/${index}.json`, { index })));
+    await storage.uploadJSON("other/1.json", {});
+
+    expect(await storage.list("listing/")).toEqual(["listing/0.json", "listing/1.json", "listing/2.json"]);
+  });
+
+  it("reports missing files", async () => {
+    await expect(storage.readFile("portfolios/missing/index.html")).rejects.toBeInstanceOf(StorageNotFoundError);
+    expect(await storage.exists("portfolios/missing/index.html")).toBe(false);
+  });
+
+  it("deletes files", async () => {
+    await storage.uploadJSON("portfolios/gone/metadata.json", {});
+    expect(await storage.exists("portfolios/gone/metadata.json")).toBe(true);
+
+    await storage.deleteFile("portfolios/gone/metadata.json");
+    expect(await storage.exists("portfolios/gone/metadata.json")).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  NotFound,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { StorageProvider } from "./types";
+import { StorageNotFoundError } from "./errors";
+
+export interface S3StorageConfig {
+  endpoint: string; // e.g. https://<account>.r2.cloudflarestorage.com or http://localhost:9000 for MinIO
+  bucket: string;
+  region: string; // "auto" for Cloudflare R2
+  accessKeyId: string;
+  secretAccessKey: string;
+  publicBaseUrl?: string; // Public bucket URL or custom domain; defaults to the path-style endpoint URL
+  name?: string;
+}
+
+const MUTABLE_CACHE_CONTROL = "public, max-age=60";
+const IMMUTABLE_CACHE_CONTROL = "public, max-age=31536000, immutable";
+const isMutable = (contentType: string) =>
+  contentType.startsWith("text/html") || contentType.startsWith("application/json");
+
+// Keys keep their slashes in public URLs; each segment is percent-encoded
+const encodeKey = (key: string) => key.split("/").map(encodeURIComponent).join("/");
+
+const isNotFound = (error: unknown) =>
+  error instanceof NoSuchKey ||
+  error instanceof NotFound ||
+  (error as { $metadata?: { httpStatusCode?: number } })?.$metadata?.httpStatusCode === 404;
+
+/**
+ * Stores portfolios in any S3-compatible bucket (AWS S3, Cloudflare R2,
+ * MinIO) through the AWS SDK, using path-style requests.
+ */
+export class S3StorageProvider implements StorageProvider {
+  private config: S3StorageConfig;
+  private client: S3Client;
+
+  constructor(config: S3StorageConfig) {
+    this.config = {
+      ...config,
+      endpoint: config.endpoint.replace(/\/+$/, ""),
+      publicBaseUrl: config.publicBaseUrl?.replace(/\/+$/, ""),
+    };
+    this.client = new S3Client({
+      endpoint: this.config.endpoint,
+      region: this.config.region,
+      credentials: { accessKeyId: this.config.accessKeyId, secretAccessKey: this.config.secretAccessKey },
+      // Buckets are addressed as {endpoint}/{bucket}, which MinIO and custom endpoints need
+      forcePathStyle: true,
+    });
+  }
+
+  async uploadFile(path: string, content: Buffer | string, contentType?: string): Promise<string> {
+    // Ensure HTML files have proper charset
+    const finalContentType = contentType === "text/html"
+      ? "text/html; charset=utf-8"
+      : (contentType || "text/html; charset=utf-8");
+
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.config.bucket,
+        Key: path,
+        Body: content,
+        ContentType: finalContentType,
+        // Keep the CDN cache short for documents that can be rewritten; assets are immutable
+        CacheControl: isMutable(finalContentType) ? MUTABLE_CACHE_CONTROL : IMMUTABLE_CACHE_CONTROL,
+      })
+    );
+    return this.getPublicUrl(path);
+  }
+
+  async uploadJSON(path: string, data: any): Promise<string> {
+    const content = JSON.stringify(data, null, 2);
+    return this.uploadFile(path, content, "application/json");
+  }
+
+  async readFile(path: string): Promise<Buffer> {
+    const key = this.toKey(path);
+    try {
+      const { Body } = await this.client.send(new GetObjectCommand({ Bucket: this.config.bucket, Key: key }));
+      if (!Body) throw new StorageNotFoundError(key);
+      return Buffer.from(await Body.transformToByteArray());
+    } catch (error) {
+      if (isNotFound(error)) throw new StorageNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async readJSON<T = unknown>(path: string): Promise<T> {
+    return JSON.parse((await this.readFile(path)).toString("utf-8"));
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({ Bucket: this.config.bucket, Prefix: prefix, ContinuationToken: continuationToken })
+      );
+      keys.push(...(page.Contents ?? []).flatMap((object) => (object.Key ? [object.Key] : [])));
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return keys.sort();
+  }
+
+  async exists(path: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.config.bucket, Key: this.toKey(path) }));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  getPublicUrl(path: string): string {
+    const base = this.config.publicBaseUrl || `${this.config.endpoint}/${this.config.bucket}`;
+    return `${base}/${encodeKey(path)}`;
+  }
+
+  getPathFromUrl(url: string): string | null {
+    const base = this.getPublicUrl("");
+    const withoutQuery = url.split(/[?#]/)[0];
+    if (!withoutQuery.startsWith(base)) return null;
+    try {
+      return decodeURIComponent(withoutQuery.slice(base.length));
+    } catch {
+      return null;
+    }
+  }
+
+  async deleteFile(path: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.config.bucket, Key: this.toKey(path) }));
+  }
+
+  getName(): string {
+    return this.config.name || `S3 (${this.config.bucket})`;
+  }
+
+  isAbsoluteUrl(): boolean {
+    return true;
+  }
+
+  // Accepts either a storage path or a public URL returned by getPublicUrl
+  private toKey(pathOrUrl: string): string {
+    return this.getPathFromUrl(pathOrUrl) ?? pathOrUrl;
+  }
+}
@@ -2,8 +2,39 @@ import path from "path";
 import { StorageProvider } from "./types";
 import { VercelBlobProvider } from "./vercel-blob-provider";
 import { LocalStorageProvider } from "./local-provider";
+import { S3StorageProvider } from "./s3-provider";
 
-export type StorageType = "vercel-blob" | "local" | "cloudflare-r2";
+export type StorageType = "vercel-blob" | "local" | "cloudflare-r2" | "s3";
+
+const storageTypes: StorageType[] = ["vercel-blob", "local", "cloudflare-r2", "s3"];
+
+export const isStorageType = (value: string): value is StorageType => storageTypes.includes(value as StorageType);
+
+// Shared by "s3" and "cloudflare-r2"; R2 derives its endpoint from R2_ACCOUNT_ID when S3_ENDPOINT is unset
+const createS3Provider = (type: "s3" | "cloudflare-r2"): S3StorageProvider => {
+  const accountId = process.env.R2_ACCOUNT_ID;
+  const endpoint = process.env.S3_ENDPOINT
+    || (type === "cloudflare-r2" && accountId ? `https://${accountId}.r2.cloudflarestorage.com` : undefined)
+    || (type === "s3" ? `https://s3.${process.env.S3_REGION || "us-east-1"}.amazonaws.com` : undefined);
+  const { S3_BUCKET: bucket, S3_ACCESS_KEY_ID: accessKeyId, S3_SECRET_ACCESS_KEY: secretAccessKey } = process.env;
+
+  if (!endpoint) {
+    throw new Error("S3_ENDPOINT or R2_ACCOUNT_ID environment variable is not set.");
+  }
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error("S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY environment variables must be set.");
+  }
+
+  return new S3StorageProvider({
+    endpoint,
+    bucket,
+    region: process.env.S3_REGION || (type === "cloudflare-r2" ? "auto" : "us-east-1"),
+    accessKeyId,
+    secretAccessKey,
+    publicBaseUrl: process.env.S3_PUBLIC_BASE_URL,
+    name: type === "cloudflare-r2" ? "Cloudflare R2" : undefined,
+  });
+};
 
 export class StorageFactory {
   static createProvider(storageType?: StorageType): StorageProvider {
@@ -24,9 +55,9 @@ export class StorageFactory {
         return new LocalStorageProvider(baseDir, baseUrl);
       }
 
-      case "cloudflare-r2": {
-        throw new Error("Cloudflare R2 provider not yet implemented. Use 'vercel-blob' or 'local'.");
-      }
+      case "cloudflare-r2":
+      case "s3":
+        return createS3Provider(type);
 
       default:
         throw new Error(`Unknown storage provider: ${type}`);
@@ -1,7 +1,12 @@
 export interface StorageProvider {
   uploadFile(path: string, content: Buffer | string, contentType?: string): Promise<string>;
   uploadJSON(path: string, data: any): Promise<string>;
+  readFile(path: string): Promise<Buffer>; // Throws StorageNotFoundError when the file does not exist
+  readJSON<T = unknown>(path: string): Promise<T>;
+  list(prefix: string): Promise<string[]>; // Paths of every file under the prefix, recursively
+  exists(path: string): Promise<boolean>;
   getPublicUrl(path: string): string;
+  getPathFromUrl(url: string): string | null; // Inverse of getPublicUrl; null when the URL does not point into this storage
   deleteFile(path: string): Promise<void>;
   getName(): string;
   isAbsoluteUrl(): boolean; // Returns true if URLs from this provider are absolute (http/https)
@@ -15,4 +20,5 @@ export interface PortfolioFiles {
   htmlUrl: string;
   imageUrl?: string;
   metadataUrl: string;
+  resumeUrl: string;
 }
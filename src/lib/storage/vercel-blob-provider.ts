@@ -1,5 +1,11 @@
-import { put, del } from "@vercel/blob";
+import { put, del, head, list, BlobNotFoundError } from "@vercel/blob";
 import { StorageProvider } from "./types";
+import { StorageNotFoundError } from "./errors";
+
+const MUTABLE_CACHE_SECONDS = 60;
+const BLOB_HOST_SUFFIX = ".public.blob.vercel-storage.com";
+const isMutable = (contentType: string) =>
+  contentType.startsWith("text/html") || contentType.startsWith("application/json");
 
 export class VercelBlobProvider implements StorageProvider {
   private token: string;
@@ -19,6 +25,9 @@ export class VercelBlobProvider implements StorageProvider {
       token: this.token,
       contentType: finalContentType,
       addRandomSuffix: false, // Keep the exact filename
+      allowOverwrite: true, // Edited portfolios rewrite their HTML, resume.json and metadata.json
+      // Keep the CDN cache short for documents that can be rewritten; assets are immutable
+      ...(isMutable(finalContentType) ? { cacheControlMaxAge: MUTABLE_CACHE_SECONDS } : {}),
     });
     return blob.url;
   }
@@ -28,10 +37,55 @@ export class VercelBlobProvider implements StorageProvider {
     return this.uploadFile(path, content, "application/json");
   }
 
+  async readFile(path: string): Promise<Buffer> {
+    const blob = await this.head(path);
+    if (!blob) throw new StorageNotFoundError(path);
+
+    // Bypass the CDN cache so documents rewritten in the last minute are read fresh
+    const url = new URL(blob.url);
+    url.searchParams.set("v", Date.now().toString());
+    const response = await fetch(url, { cache: "no-store" });
+    if (response.status === 404) throw new StorageNotFoundError(path);
+    if (!response.ok) {
+      throw new Error(`Failed to read ${path} from Vercel Blob: ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async readJSON<T = unknown>(path: string): Promise<T> {
+    return JSON.parse((await this.readFile(path)).toString("utf-8"));
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const paths: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await list({ prefix, cursor, token: this.token });
+      paths.push(...page.blobs.map((blob) => blob.pathname));
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+    return paths.sort();
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return (await this.head(path)) !== null;
+  }
+
   getPublicUrl(path: string): string {
     return path;
   }
 
+  // Blob URLs are https://<store id>.public.blob.vercel-storage.com/<pathname>
+  getPathFromUrl(url: string): string | null {
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== "https:" || !parsed.hostname.endsWith(BLOB_HOST_SUFFIX)) return null;
+      return decodeURIComponent(parsed.pathname.slice(1));
+    } catch {
+      return null;
+    }
+  }
+
   async deleteFile(path: string): Promise<void> {
     await del(path, { token: this.token });
   }
@@ -43,4 +97,13 @@ export class VercelBlobProvider implements StorageProvider {
   isAbsoluteUrl(): boolean {
     return true;
   }
+
+  private async head(path: string) {
+    try {
+      return await head(path, { token: this.token });
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) return null;
+      throw error;
+    }
+  }
 }
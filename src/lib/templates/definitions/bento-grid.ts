@@ -0,0 +1,45 @@
+import { PortfolioTemplate } from "../types";
+
+export const bentoGrid: PortfolioTemplate = {
+  id: "bento-grid",
+  name: "Bento Grid",
+  description: "Modular card layout with monochromatic palette and 3D depth",
+  fonts: [
+    { heading: "Inter", body: "Inter" }, // Black weight for headings; Sohne via @font-face if available
+  ],
+  palette: {
+    description: "STRICTLY MONOCHROMATIC (blacks, whites, grays only)",
+    background: "#FFFFFF",
+    surface: "#F9F9F9",
+    text: "#000000",
+    mutedText: "#525252",
+    accent: "#000000",
+    border: "#E5E5E5",
+  },
+  background: [
+    "Pure white (#FFFFFF) or very light gray (#F9F9F9)",
+    "NO gradients or textures - pure flat color",
+    "Use subtle grid lines or dividers in light gray (#E5E5E5)",
+  ],
+  animation: [
+    "Minimal fade-in on load (opacity only, no motion)",
+    "Subtle hover state on buttons (slight background color shift)",
+    "NO complex animations - prioritize stillness",
+  ],
+  visualStyle: [
+    "STRICTLY MONOCHROMATIC (blacks, whites, grays only)",
+    "Very large headings (clamp(48px, 8vw, 120px))",
+    "Ultra-light borders (1px #E5E5E5)",
+    "Minimal shadows (if any): 0 1px 3px rgba(0,0,0,0.05)",
+    "Pills buttons with black fill and white text",
+  ],
+  layout: "Single-column, centered content with generous whitespace; each section separated by 120px+ vertical space; maximum width 800px for readability",
+  inspiration: "Linear, Vercel, minimalist Swiss design, brutalist simplicity",
+  rendering: {
+    layout: "centered",
+    radius: "12px",
+    shadow: "0 1px 3px rgba(0, 0, 0, 0.05)",
+    borderWidth: "1px",
+    headingWeight: 900,
+  },
+};
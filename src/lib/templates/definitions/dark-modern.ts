@@ -0,0 +1,49 @@
+import { PortfolioTemplate } from "../types";
+
+export const darkModern: PortfolioTemplate = {
+  id: "dark-modern",
+  name: "Dark Modern",
+  description: "Contemporary dark theme with accent colors",
+  fonts: [
+    { heading: "Inter", body: "JetBrains Mono" },
+    { heading: "Outfit", body: "Space Grotesk" },
+  ],
+  palette: {
+    description: "Near-black backgrounds with neon accents (electric blue, cyan, magenta, lime green)",
+    background: "#0A0A0A",
+    surface: "#1A1A1A",
+    text: "#E5E5E5",
+    mutedText: "#A3A3A3",
+    accent: "#22D3EE",
+    border: "#2E2E2E",
+    extraAccents: ["#A855F7", "#3B82F6"],
+  },
+  background: [
+    "Deep dark (#0a0a0a to #1a1a1a) with layered gradients",
+    "Add radial gradient spotlights (purple, blue, cyan)",
+    "Incorporate subtle dot or line patterns",
+    "Use mesh gradients for depth (dark blue to purple to teal)",
+  ],
+  animation: [
+    "Smooth fade-ins with glow effects, staggered by section",
+    "Pulsing glow on accent elements",
+    "Smooth glassmorphic card reveals",
+    "Hover: Increase glow intensity and slight lift",
+  ],
+  visualStyle: [
+    "Glassmorphism (backdrop-filter: blur, semi-transparent backgrounds)",
+    "Neon accent colors (electric blue, cyan, magenta, lime green)",
+    "Soft glow effects (box-shadow with spread)",
+    "High contrast white/light text (#E5E5E5)",
+  ],
+  layout: "Full-bleed sections with overlapping glassmorphic cards",
+  inspiration: "Apple product pages, crypto/web3 sites, cyberpunk aesthetic",
+  rendering: {
+    layout: "cards",
+    radius: "16px",
+    shadow: "0 0 40px rgba(34, 211, 238, 0.12)",
+    borderWidth: "1px",
+    headingWeight: 800,
+    glass: true,
+  },
+};
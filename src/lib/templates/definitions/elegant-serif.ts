@@ -0,0 +1,42 @@
+import { PortfolioTemplate } from "../types";
+
+export const elegantSerif: PortfolioTemplate = {
+  id: "elegant-serif",
+  name: "Elegant Serif",
+  description: "Sophisticated two-column layout with refined typography",
+  fonts: [
+    { heading: "Playfair Display", body: "Crimson Pro" },
+    { heading: "Lora", body: "Source Serif Pro" },
+  ],
+  palette: {
+    description: "Beiges, warm grays, deep burgundy or forest green accent",
+    background: "#FAF7F2",
+    surface: "#FFFFFF",
+    text: "#2B2622",
+    mutedText: "#6B625A",
+    accent: "#7A1F2B",
+    border: "#D8CBB5",
+    extraAccents: ["#2F4F3A", "#B8975A"],
+  },
+  background: [
+    "Cream base (#FAF7F2) with subtle paper texture via CSS noise filter",
+    "Add faint radial gradient from center (white to cream)",
+    "Incorporate thin decorative lines or borders in muted gold",
+  ],
+  animation: [
+    "Fade-in sections on load with slight upward motion",
+    "Smooth parallax on decorative elements",
+    "Elegant hover transitions on project cards (subtle shadow growth)",
+  ],
+  visualStyle: [],
+  layout: "Refined two-column layout with sidebar navigation",
+  details: "Timeline-style work experience, decorative flourishes, serif drop caps",
+  inspiration: "High-end editorial design, luxury brand websites",
+  rendering: {
+    layout: "sidebar",
+    radius: "2px",
+    shadow: "0 10px 30px rgba(43, 38, 34, 0.08)",
+    borderWidth: "1px",
+    headingWeight: 700,
+  },
+};
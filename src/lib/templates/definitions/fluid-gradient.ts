@@ -0,0 +1,49 @@
+import { PortfolioTemplate } from "../types";
+
+export const fluidGradient: PortfolioTemplate = {
+  id: "fluid-gradient",
+  name: "Fluid Gradient",
+  description: "Fluid gradients with frosted glass and premium spacing",
+  fonts: [
+    { heading: "Plus Jakarta Sans", body: "DM Sans" },
+    { heading: "Satoshi", body: "Inter" },
+  ],
+  palette: {
+    description: "Multi-color mesh gradient (blue, purple, pink, orange) under white frosted glass",
+    background: "#4F46E5",
+    surface: "rgba(255, 255, 255, 0.14)",
+    text: "#FFFFFF",
+    mutedText: "#E0E7FF",
+    accent: "#F59E0B",
+    border: "rgba(255, 255, 255, 0.2)",
+    gradient: ["#4F46E5", "#9333EA", "#EC4899", "#F59E0B"],
+  },
+  background: [
+    "Multi-color mesh gradient with smooth color transitions",
+    "Layer 3-4 colors: blues (#4F46E5), purples (#9333EA), oranges (#F59E0B), pinks (#EC4899)",
+    "Use radial and linear gradients combined",
+    "Add subtle animated gradient shift (optional CSS animation)",
+  ],
+  animation: [
+    "Glassmorphic cards fade in with slight scale",
+    "Smooth parallax on background gradient",
+    "Hover: Brighten glassmorphic effect and lift card",
+    "Floating animation on decorative elements",
+  ],
+  visualStyle: [
+    "Frosted glass cards (backdrop-filter: blur(20px), rgba backgrounds)",
+    "Soft borders (1px rgba(255,255,255,0.2))",
+    "Premium shadows with multiple layers",
+    "White or very light text on glass",
+  ],
+  layout: "Centered content with glassmorphic card sections",
+  inspiration: "Stripe, Linear, modern fintech/SaaS landing pages",
+  rendering: {
+    layout: "centered",
+    radius: "20px",
+    shadow: "0 20px 50px rgba(17, 24, 39, 0.25)",
+    borderWidth: "1px",
+    headingWeight: 800,
+    glass: true,
+  },
+};
@@ -0,0 +1,46 @@
+import { PortfolioTemplate } from "../types";
+
+export const minimalCards: PortfolioTemplate = {
+  id: "minimal-cards",
+  name: "Minimal Cards",
+  description: "Clean grid-based design with project cards",
+  fonts: [
+    { heading: "DM Sans", body: "Inter" },
+    { heading: "Manrope", body: "Work Sans" },
+  ],
+  palette: {
+    description: "White and light gray with a single vibrant accent (blue, purple, or teal)",
+    background: "#FAFAFA",
+    surface: "#FFFFFF",
+    text: "#111827",
+    mutedText: "#4B5563",
+    accent: "#4F46E5",
+    border: "#E5E7EB",
+  },
+  background: [
+    "Pure white or very light gray (#FAFAFA) with subtle gradient overlay",
+    "Add faint geometric grid pattern in background",
+    "Use colored accent blocks sparingly for visual interest",
+  ],
+  animation: [
+    "Cards lift on hover with smooth shadow expansion",
+    "Fade-in and slide-up on load with stagger effect",
+    "Smooth color transitions on interactive elements",
+    "Scale transform on card hover (1.02x growth)",
+  ],
+  visualStyle: [
+    "Soft shadows (0 4px 20px rgba(0,0,0,0.08))",
+    "Single vibrant accent color (blue, purple, or teal)",
+    "Rounded corners (8-12px) for modern feel",
+    "Generous whitespace and padding",
+  ],
+  layout: "Clean grid (2-3 columns) with consistent card sizing",
+  inspiration: "Dribbble, Behance, modern SaaS landing pages",
+  rendering: {
+    layout: "cards",
+    radius: "12px",
+    shadow: "0 4px 20px rgba(0, 0, 0, 0.08)",
+    borderWidth: "1px",
+    headingWeight: 700,
+  },
+};
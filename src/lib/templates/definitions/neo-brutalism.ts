@@ -0,0 +1,48 @@
+import { PortfolioTemplate } from "../types";
+
+export const neoBrutalism: PortfolioTemplate = {
+  id: "neo-brutalism",
+  name: "Neo Brutalism",
+  description: "Bold colors, heavy shadows, and raw geometric shapes",
+  fonts: [
+    { heading: "Archivo Black", body: "Space Grotesk" },
+    { heading: "Syne", body: "IBM Plex Mono" },
+  ],
+  palette: {
+    description: "Warm cream with bright orange, acid green and electric purple accents",
+    background: "#FFFAE5",
+    surface: "#FFFFFF",
+    text: "#000000",
+    mutedText: "#2E2E2E",
+    accent: "#FF4D00",
+    border: "#000000",
+    extraAccents: ["#A3FF00", "#9D00FF"],
+  },
+  background: [
+    "Warm cream (#FFFAE5) with optional subtle grain texture",
+    "Add bold geometric shapes as decorative elements",
+    "Use solid color blocks (orange, green, purple) as section dividers",
+  ],
+  animation: [
+    "Elements \"pop in\" with bounce effect on load",
+    "Hover: Remove shadow and translate element to shadow position (active press effect)",
+    "Stagger animations for grid items",
+    "Rotate/skew animations on decorative shapes",
+  ],
+  visualStyle: [
+    "Heavy 4px black borders on ALL interactive elements",
+    "Hard drop shadows (8px 8px 0px black) - NO blur",
+    "Accent colors: bright orange (#FF4D00), acid green (#A3FF00), electric purple (#9D00FF)",
+    "NO rounded corners - pure geometric rectangles",
+    "Text-stroke effects for outlined typography (-webkit-text-stroke)",
+  ],
+  layout: "Asymmetric bento-grid with varying card sizes",
+  inspiration: "Y2K web design, punk zines, screen printing, brutalist architecture",
+  rendering: {
+    layout: "cards",
+    radius: "0",
+    shadow: "8px 8px 0 #000000",
+    borderWidth: "4px",
+    headingWeight: 900,
+  },
+};
@@ -0,0 +1,31 @@
+import { PortfolioTemplate } from "./types";
+
+const bulletList = (items: string[]) => items.map((item) => `  * ${item}`).join("\n");
+
+/**
+ * Renders a template's design guidance as the Markdown block used in the
+ * generation prompt.
+ */
+export function describeTemplate(template: PortfolioTemplate): string {
+  const fonts = template.fonts
+    .map((pairing) => `${pairing.heading} (headings) + ${pairing.body} (body)`)
+    .join(" OR ");
+
+  const sections = [
+    `**${template.id}:**`,
+    `- **Fonts:** ${fonts}`,
+    `- **Background:**\n${bulletList(template.background)}`,
+    `- **Animations:**\n${bulletList(template.animation)}`,
+  ];
+  if (template.visualStyle.length > 0) {
+    sections.push(`- **Visual Style:**\n${bulletList(template.visualStyle)}`);
+  }
+  sections.push(`- **Layout:** ${template.layout}`);
+  sections.push(`- **Color Palette:** ${template.palette.description}`);
+  if (template.details) {
+    sections.push(`- **Details:** ${template.details}`);
+  }
+  sections.push(`- **Inspiration:** ${template.inspiration}`);
+
+  return sections.join("\n");
+}
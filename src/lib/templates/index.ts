@@ -0,0 +1,3 @@
+export { templates, defaultTemplateId, getTemplate, isTemplateId } from "./registry";
+export { describeTemplate } from "./describe";
+export type { PortfolioTemplate, TemplateFontPairing, TemplatePalette, TemplateRendering } from "./types";
@@ -0,0 +1,27 @@
+import { PortfolioTemplate } from "./types";
+import { elegantSerif } from "./definitions/elegant-serif";
+import { neoBrutalism } from "./definitions/neo-brutalism";
+import { minimalCards } from "./definitions/minimal-cards";
+import { darkModern } from "./definitions/dark-modern";
+import { fluidGradient } from "./definitions/fluid-gradient";
+import { bentoGrid } from "./definitions/bento-grid";
+
+// Order here is the order shown in the template picker; the first entry is the default
+export const templates: PortfolioTemplate[] = [
+  elegantSerif,
+  neoBrutalism,
+  minimalCards,
+  darkModern,
+  fluidGradient,
+  bentoGrid,
+];
+
+export const defaultTemplateId = templates[0].id;
+
+export function getTemplate(id: string): PortfolioTemplate | undefined {
+  return templates.find((template) => template.id === id);
+}
+
+export function isTemplateId(id: unknown): id is string {
+  return typeof id === "string" && templates.some((template) => template.id === id);
+}
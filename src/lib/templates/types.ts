@@ -0,0 +1,41 @@
+export interface TemplateFontPairing {
+  heading: string;
+  body: string;
+}
+
+export interface TemplatePalette {
+  description: string;
+  background: string;
+  surface: string; // Cards and panels
+  text: string;
+  mutedText: string;
+  accent: string;
+  border: string;
+  extraAccents?: string[];
+  gradient?: string[]; // Color stops for templates with gradient backgrounds
+}
+
+// Style tokens for the built-in (non-AI) renderer
+export interface TemplateRendering {
+  layout: "sidebar" | "cards" | "centered";
+  radius: string;
+  shadow: string;
+  borderWidth: string;
+  headingWeight: number;
+  glass?: boolean; // Frosted translucent cards
+}
+
+export interface PortfolioTemplate {
+  id: string;
+  name: string;
+  description: string; // Shown in the template picker
+  fonts: TemplateFontPairing[]; // Google Fonts pairings, preferred first
+  palette: TemplatePalette;
+  background: string[];
+  animation: string[];
+  visualStyle: string[];
+  layout: string;
+  details?: string;
+  inspiration: string;
+  rendering: TemplateRendering;
+}
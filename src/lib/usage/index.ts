@@ -0,0 +1,2 @@
+export { recordUsage, getUsageReport } from "./usage-store";
+export type { UsageReport, UsageTotals } from "./types";
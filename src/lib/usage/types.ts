@@ -0,0 +1,17 @@
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  costUsd: number; // Only includes calls whose model has a price in AI_PRICING
+}
+
+export interface UsageReport {
+  from: string; // First day included, YYYY-MM-DD (UTC)
+  to: string;
+  generations: number;
+  totals: UsageTotals;
+  byProvider: Record<string, UsageTotals>;
+  byTemplate: Record<string, UsageTotals & { generations: number }>;
+  byDay: Record<string, UsageTotals & { generations: number }>;
+}
@@ -0,0 +1,98 @@
+import { KVFactory } from "@/lib/kv";
+import type { UsageSummary } from "@/lib/ai";
+import { UsageReport, UsageTotals } from "./types";
+
+// Key-value store for usage accounting
+const kv = () => KVFactory.getDefaultStore();
+
+const USAGE_TTL_SECONDS = 400 * 24 * 60 * 60;
+const MAX_REPORT_DAYS = 366;
+
+const TOTAL_METRICS = ["calls", "promptTokens", "completionTokens", "latencyMs", "costUsd"] as const;
+
+// One hash per UTC day; fields are "call|{provider}|{template}|{metric}" and "generations|{template}"
+const usageKey = (day: string) => `usage:daily:${day}`;
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, promptTokens: 0, completionTokens: 0, latencyMs: 0, costUsd: 0 });
+
+const addTo = <T extends UsageTotals>(totals: T, metric: string, value: number) => {
+  if ((TOTAL_METRICS as readonly string[]).includes(metric)) {
+    totals[metric as keyof UsageTotals] += value;
+  }
+};
+
+/**
+ * Adds the model calls of one generation request to the daily counters,
+ * keyed by the provider that served each call and the portfolio template.
+ */
+export async function recordUsage(template: string, usage: UsageSummary, date = new Date()): Promise<void> {
+  const increments: Record<string, number> = { [`generations|${template}`]: 1 };
+  const add = (field: string, value: number) => {
+    increments[field] = (increments[field] ?? 0) + value;
+  };
+
+  for (const call of usage.calls) {
+    const prefix = `call|${call.provider}|${template}`;
+    add(`${prefix}|calls`, 1);
+    add(`${prefix}|promptTokens`, call.promptTokens);
+    add(`${prefix}|completionTokens`, call.completionTokens);
+    add(`${prefix}|latencyMs`, call.latencyMs);
+    if (call.costUsd !== undefined) {
+      add(`${prefix}|costUsd`, call.costUsd);
+    }
+  }
+
+  await kv().incrementHash(usageKey(toDay(date)), increments, USAGE_TTL_SECONDS);
+}
+
+// Aggregates the daily counters of the last `days` days, including today
+export async function getUsageReport(days: number, now = new Date()): Promise<UsageReport> {
+  const dayCount = Math.min(Math.max(Math.floor(days), 1), MAX_REPORT_DAYS);
+  const dates = Array.from({ length: dayCount }, (_, index) => toDay(new Date(now.getTime() - index * 24 * 60 * 60 * 1000))).reverse();
+
+  const report: UsageReport = {
+    from: dates[0],
+    to: dates[dates.length - 1],
+    generations: 0,
+    totals: emptyTotals(),
+    byProvider: {},
+    byTemplate: {},
+    byDay: {},
+  };
+
+  const hashes = await kv().getHashes(dates.map(usageKey));
+
+  dates.forEach((day, index) => {
+    const dayTotals = (report.byDay[day] = { ...emptyTotals(), generations: 0 });
+
+    for (const [field, rawValue] of Object.entries(hashes[index] || {})) {
+      const value = Number(rawValue);
+      const parts = field.split("|");
+
+      if (parts[0] === "generations") {
+        const template = parts[1];
+        report.byTemplate[template] ??= { ...emptyTotals(), generations: 0 };
+        report.byTemplate[template].generations += value;
+        dayTotals.generations += value;
+        report.generations += value;
+        continue;
+      }
+
+      // Provider names may contain "|", so the template and metric are read from the end
+      const metric = parts[parts.length - 1];
+      const template = parts[parts.length - 2];
+      const provider = parts.slice(1, -2).join("|");
+
+      report.byProvider[provider] ??= emptyTotals();
+      report.byTemplate[template] ??= { ...emptyTotals(), generations: 0 };
+      addTo(report.byProvider[provider], metric, value);
+      addTo(report.byTemplate[template], metric, value);
+      addTo(dayTotals, metric, value);
+      addTo(report.totals, metric, value);
+    }
+  });
+
+  return report;
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PORTFOLIO_CSP_HEADER } from "@/lib/sanitizer/content-security-policy";
+
+// Local storage serves portfolios as static files from public/portfolios; give them the same policy as /p/{slug}
+export function middleware(req: NextRequest) {
+  const res = NextResponse.next();
+  if (req.nextUrl.pathname.endsWith(".html")) {
+    res.headers.set("Content-Security-Policy", PORTFOLIO_CSP_HEADER);
+  }
+  return res;
+}
+
+export const config = {
+  matcher: "/portfolios/:path*",
+};